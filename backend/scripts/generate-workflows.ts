@@ -60,8 +60,7 @@ const generateWorkflow = (): string => {
       - name: Run ${searches[key].name} monitor
         run: npm run monitor ${key}
         env:
-          TELEGRAM_BOT_TOKEN: \${{ secrets.TELEGRAM_BOT_TOKEN }}
-          TELEGRAM_CHAT_ID: \${{ secrets.TELEGRAM_CHAT_ID }}`;
+          TELEGRAM_BOT_TOKEN: \${{ secrets.TELEGRAM_BOT_TOKEN }}`;
   }).join('\n\n');
 
   return `name: Property Monitor
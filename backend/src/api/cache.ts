@@ -0,0 +1,69 @@
+/**
+ * Response Cache
+ * TTL cache in front of the Rightmove API so overlapping queries, onboarding and
+ * the details screen don't re-fetch data we got minutes ago.
+ */
+
+import config from '../config';
+
+/**
+ * Storage backend for cached responses. Async so a shared store can be
+ * plugged in as well as memory.
+ */
+export interface ResponseCache {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU with per-entry TTL. Map preserves insertion order, so
+ * re-inserting on read keeps the least recently used entry first.
+ */
+export class MemoryLruCache implements ResponseCache {
+  private entries = new Map<string, Entry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/** Process-wide cache shared by every RightmoveAPI instance */
+export const rightmoveResponseCache: ResponseCache = new MemoryLruCache(config.responseCacheMaxEntries);
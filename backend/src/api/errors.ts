@@ -0,0 +1,93 @@
+/**
+ * Rightmove API Errors
+ * Typed failures so callers can tell throttling from removed listings from network trouble
+ */
+
+import type { SchemaDriftReport } from './schemas';
+
+export class RightmoveError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'RightmoveError';
+  }
+}
+
+/** 429 - we are being throttled */
+export class RightmoveRateLimitError extends RightmoveError {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message, 429, true);
+    this.name = 'RightmoveRateLimitError';
+  }
+}
+
+/** 404/410 - the listing (or page) no longer exists */
+export class RightmoveNotFoundError extends RightmoveError {
+  constructor(message: string, status = 404) {
+    super(message, status, false);
+    this.name = 'RightmoveNotFoundError';
+  }
+}
+
+/** 5xx - Rightmove is having a bad time */
+export class RightmoveServerError extends RightmoveError {
+  constructor(message: string, status: number) {
+    super(message, status, true);
+    this.name = 'RightmoveServerError';
+  }
+}
+
+/** Any other non-200 response (400, 401, 403...) - retrying won't help */
+export class RightmoveClientError extends RightmoveError {
+  constructor(message: string, status: number) {
+    super(message, status, false);
+    this.name = 'RightmoveClientError';
+  }
+}
+
+/** Socket, DNS or TLS failure before we got a response */
+export class RightmoveNetworkError extends RightmoveError {
+  constructor(message: string, public cause?: unknown) {
+    super(message, undefined, true);
+    this.name = 'RightmoveNetworkError';
+  }
+}
+
+/** No response within the per-request timeout */
+export class RightmoveTimeoutError extends RightmoveNetworkError {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'RightmoveTimeoutError';
+  }
+}
+
+/** Response body could not be decoded/parsed */
+export class RightmoveParseError extends RightmoveError {
+  constructor(message: string, status?: number) {
+    super(message, status, false);
+    this.name = 'RightmoveParseError';
+  }
+}
+
+/** Response didn't match the expected schema (strict validation mode only) */
+export class RightmoveSchemaError extends RightmoveError {
+  constructor(message: string, public report: SchemaDriftReport) {
+    super(message, 200, false);
+    this.name = 'RightmoveSchemaError';
+  }
+}
+
+/** Caller aborted via AbortSignal */
+export class RightmoveAbortError extends RightmoveError {
+  constructor() {
+    super('Request aborted', undefined, false);
+    this.name = 'RightmoveAbortError';
+  }
+}
+
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof RightmoveError && error.retryable;
+}
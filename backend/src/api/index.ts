@@ -3,3 +3,13 @@
  */
 
 export { RightmoveAPI } from './rightmove';
+export type { RetryPolicy, RightmoveAPIOptions, RequestOptions, SearchAllPagesOptions, ValidationMode } from './rightmove';
+export * from './errors';
+export { httpTransport } from './transport';
+export type { Transport, TransportRequest, TransportResponse } from './transport';
+export { RateLimiter, rightmoveRateLimiter } from './rateLimiter';
+export type { RateLimiterOptions } from './rateLimiter';
+export { MemoryLruCache, rightmoveResponseCache } from './cache';
+export type { ResponseCache } from './cache';
+export { formatDriftReport } from './schemas';
+export type { SchemaDriftReport, SchemaDriftIssue } from './schemas';
@@ -0,0 +1,153 @@
+/**
+ * Rate Limiter
+ * Token bucket (requests/second + burst) combined with a concurrency cap.
+ * One shared instance budgets all Rightmove traffic in the process, so the
+ * monitor, /api/search and onboarding don't throttle each other into 429s.
+ */
+
+import config from '../config';
+import { RightmoveAbortError } from './errors';
+
+export interface RateLimiterOptions {
+  /** Sustained request rate */
+  requestsPerSecond: number;
+  /** Bucket size - how many requests may go out back-to-back after idling */
+  burst: number;
+  /** Max requests in flight at once */
+  maxConcurrency: number;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private pausedUntil = 0;
+  private queue: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private options: RateLimiterOptions) {
+    this.tokens = options.burst;
+  }
+
+  /**
+   * Wait for a slot. Resolves with a release function that must be called
+   * once the request has finished (success or failure).
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RightmoveAbortError());
+        return;
+      }
+
+      const waiter: Waiter = {
+        resolve: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+        reject
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new RightmoveAbortError());
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Run a task inside a slot
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Stop issuing slots for a while (e.g. after a 429 with Retry-After)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  /** Requests waiting for a slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /** Requests currently holding a slot */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsed * this.options.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      // release() calls drain() again when a slot frees up
+      if (this.active >= this.options.maxConcurrency) return;
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        this.wake(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.drain();
+      };
+
+      this.queue.shift()!.resolve(release);
+    }
+  }
+
+  private wake(ms: number): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.ceil(ms));
+  }
+}
+
+/** Process-wide limiter for all Rightmove traffic */
+export const rightmoveRateLimiter = new RateLimiter({
+  requestsPerSecond: config.rightmoveRequestsPerSecond,
+  burst: config.rightmoveBurst,
+  maxConcurrency: config.rightmoveMaxConcurrency
+});
@@ -3,22 +3,45 @@
  * Handles communication with Rightmove's mobile API
  */
 
-import * as https from 'https';
 import * as zlib from 'zlib';
+import { z } from 'zod';
 import {
   PropertySearchParams,
   PropertySearchResult,
+  PropertySearchPage,
   PropertyListItem,
   PropertyDetails,
-  PropertySearchAPIResponse,
-  PropertyDetailsAPIResponse
+  PropertyDetailsAPIResponse,
+  BoundingBox
 } from '../types';
+import config from '../config';
+import {
+  RightmoveError,
+  RightmoveRateLimitError,
+  RightmoveNotFoundError,
+  RightmoveServerError,
+  RightmoveClientError,
+  RightmoveParseError,
+  RightmoveAbortError,
+  RightmoveSchemaError,
+  isRetryableError
+} from './errors';
+import { RateLimiter, rightmoveRateLimiter } from './rateLimiter';
+import { ResponseCache, rightmoveResponseCache } from './cache';
+import { Transport, TransportRequest, httpTransport } from './transport';
+import {
+  PropertySearchAPIResponseSchema,
+  PropertyDetailsAPIResponseSchema,
+  SchemaDriftReport,
+  checkSchema,
+  formatDriftReport
+} from './schemas';
 
-const API_BASE = 'api.rightmove.co.uk';
+// Override with RIGHTMOVE_API_URL to point at the local fake server (npm run fake-rightmove)
+const DEFAULT_BASE_URL = process.env.RIGHTMOVE_API_URL || 'https://api.rightmove.co.uk';
 
-// Headers that mimic the official Rightmove iOS app
+// Headers that mimic the official Rightmove iOS app (Host is set from the base URL)
 const API_HEADERS = {
-  'Host': 'api.rightmove.co.uk',
   'Content-Type': 'application/json',
   'Accept': '*/*',
   'Cookie': 'permuserid=2506309L1QVROP2IYQO9XHPHA849PDWY',
@@ -28,84 +51,391 @@ const API_HEADERS = {
   'Connection': 'keep-alive'
 };
 
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Base delay for exponential backoff (milliseconds) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, including Retry-After (milliseconds) */
+  maxDelayMs: number;
+  /** Per-attempt timeout (milliseconds) */
+  timeoutMs: number;
+}
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+export interface RightmoveAPIOptions {
+  /** Defaults to RIGHTMOVE_API_URL or https://api.rightmove.co.uk */
+  baseUrl?: string;
+  /** Defaults to Node http/https */
+  transport?: Transport;
+  retry?: Partial<RetryPolicy>;
+  /** Defaults to the process-wide limiter so every client shares one budget */
+  rateLimiter?: RateLimiter;
+  /** Defaults to the process-wide in-memory LRU; null disables caching */
+  cache?: ResponseCache | null;
+  /** Defaults to config.responseValidation */
+  validation?: ValidationMode;
+  /** Called with a drift report whenever a response doesn't match its schema */
+  onSchemaDrift?: (report: SchemaDriftReport) => void;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Skip the cache read (the fresh response is still cached) */
+  fresh?: boolean;
+}
+
+export interface SearchAllPagesOptions extends RequestOptions {
+  /** Defaults to config.maxPagesToScrape */
+  maxPages?: number;
+  /**
+   * Returns the subset of a page that is new to the caller (e.g. not yet linked
+   * to the query). Paging stops after the first page with nothing new, since
+   * results are sorted newest first and everything further back is known too.
+   */
+  filterNew?: (properties: PropertyListItem[]) => Promise<PropertyListItem[]>;
+  /**
+   * Drops listings outside the caller's area before filterNew sees them. A page
+   * with nothing inside the area doesn't stop paging - it says nothing about
+   * whether we've caught up.
+   */
+  inArea?: (property: PropertyListItem) => boolean;
+  /** Runs each page request, e.g. under a concurrency cap - filterNew and the caller's own work aren't included */
+  fetchPage?: <T>(request: () => Promise<T>) => Promise<T>;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: config.maxRetries,
+  baseDelayMs: config.retryBaseDelay,
+  maxDelayMs: config.retryMaxDelay,
+  timeoutMs: config.requestTimeout
+};
+
 /**
- * Make an HTTPS request to the Rightmove API
+ * A request on the wire that concurrent callers share. It runs on its own
+ * signal, aborted only once every caller waiting on it has given up.
  */
-function makeRequest<T>(path: string): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const options = {
-      hostname: API_BASE,
-      port: 443,
-      path,
-      method: 'GET',
-      headers: API_HEADERS
-    };
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+  settled: boolean;
+}
 
-    const req = https.request(options, (res) => {
-      const chunks: Buffer[] = [];
-
-      res.on('data', (chunk) => chunks.push(chunk));
-
-      res.on('end', () => {
-        const buffer = Buffer.concat(chunks);
-        const encoding = res.headers['content-encoding'];
-
-        let data: string;
-        try {
-          if (encoding === 'gzip') {
-            data = zlib.gunzipSync(buffer).toString('utf-8');
-          } else if (encoding === 'br') {
-            data = zlib.brotliDecompressSync(buffer).toString('utf-8');
-          } else if (encoding === 'deflate') {
-            data = zlib.inflateSync(buffer).toString('utf-8');
-          } else {
-            data = buffer.toString('utf-8');
-          }
+// Requests currently on the wire, keyed by URL, so concurrent callers share one fetch
+const inflight = new Map<string, InflightRequest>();
+
+/**
+ * Decode a response body according to its content-encoding
+ */
+function decodeBody(buffer: Buffer, encoding: string | undefined): string {
+  if (encoding === 'gzip') {
+    return zlib.gunzipSync(buffer).toString('utf-8');
+  } else if (encoding === 'br') {
+    return zlib.brotliDecompressSync(buffer).toString('utf-8');
+  } else if (encoding === 'deflate') {
+    return zlib.inflateSync(buffer).toString('utf-8');
+  }
+  return buffer.toString('utf-8');
+}
 
-          const json = JSON.parse(data);
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return undefined;
 
-          if (res.statusCode !== 200) {
-            reject(new Error(`API error: ${res.statusCode} - ${json.title || json.detail || 'Unknown error'}`));
-            return;
-          }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
 
-          resolve(json as T);
-        } catch (e) {
-          reject(new Error(`Failed to parse response: ${e}`));
-        }
-      });
-    });
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Map a non-200 response to a typed error
+ */
+function errorForStatus(status: number, body: string, retryAfterMs?: number): RightmoveError {
+  let detail = 'Unknown error';
+  try {
+    const json = JSON.parse(body);
+    detail = json.title || json.detail || detail;
+  } catch {
+    // Non-JSON error page (e.g. CDN 503) - keep the generic message
+  }
+
+  const message = `API error: ${status} - ${detail}`;
+
+  if (status === 429) return new RightmoveRateLimitError(message, retryAfterMs);
+  if (status === 404 || status === 410) return new RightmoveNotFoundError(message, status);
+  if (status >= 500) return new RightmoveServerError(message, status);
+  return new RightmoveClientError(message, status);
+}
+
+/**
+ * Send a single request through the transport and decode/parse the response
+ */
+async function requestOnce<T>(transport: Transport, request: TransportRequest): Promise<T> {
+  const res = await transport(request);
+
+  let data: string;
+  try {
+    data = decodeBody(res.body, res.headers['content-encoding'] as string | undefined);
+  } catch (e) {
+    throw new RightmoveParseError(`Failed to decode response: ${e}`, res.status);
+  }
+
+  if (res.status !== 200) {
+    throw errorForStatus(res.status, data, parseRetryAfter(res.headers['retry-after']));
+  }
+
+  try {
+    return JSON.parse(data) as T;
+  } catch (e) {
+    throw new RightmoveParseError(`Failed to parse response: ${e}`, res.status);
+  }
+}
+
+/**
+ * Sleep that rejects early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RightmoveAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RightmoveAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a shared request on behalf of one caller. The caller's own signal
+ * only rejects its own wait - other callers keep waiting on the same fetch.
+ */
+function joinInflight<T>(key: string, shared: InflightRequest, signal?: AbortSignal): Promise<T> {
+  shared.callers++;
+  return new Promise<T>((resolve, reject) => {
+    let left = false;
+    const leave = () => {
+      if (left) return;
+      left = true;
+      signal?.removeEventListener('abort', onAbort);
+      shared.callers--;
+    };
+    const onAbort = () => {
+      leave();
+      if (shared.callers === 0 && !shared.settled) {
+        // Nobody is waiting for it any more
+        if (inflight.get(key) === shared) inflight.delete(key);
+        shared.controller.abort();
+      }
+      reject(new RightmoveAbortError());
+    };
 
-    req.on('error', reject);
-    req.end();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    shared.promise.then(
+      (value) => { leave(); resolve(value as T); },
+      (error) => { leave(); reject(error); }
+    );
   });
 }
 
 /**
- * Create LAT_LONG_BOX location identifier from coordinates
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Create LAT_LONG_BOX location identifier
  * Format: LAT_LONG_BOX^westLong,eastLong,southLat,northLat
  */
+function formatLocationBox({ west, east, south, north }: BoundingBox): string {
+  return `LAT_LONG_BOX^${west},${east},${south},${north}`;
+}
+
+/**
+ * Tiny box around a point - Rightmove's radius does the real work
+ */
 function createLocationBox(lat: number, lng: number): string {
   const delta = 0.0005; // ~50m bounding box
-  const westLong = lng - delta;
-  const eastLong = lng + delta;
-  const southLat = lat - delta;
-  const northLat = lat + delta;
-  return `LAT_LONG_BOX^${westLong},${eastLong},${southLat},${northLat}`;
+  return formatLocationBox({ west: lng - delta, east: lng + delta, south: lat - delta, north: lat + delta });
 }
 
 /**
  * Rightmove API Client
  */
 export class RightmoveAPI {
+  private baseUrl: URL;
+  private transport: Transport;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter: RateLimiter;
+  private cache: ResponseCache | null;
+  private validation: ValidationMode;
+  private onSchemaDrift: (report: SchemaDriftReport) => void;
+
+  constructor(options: RightmoveAPIOptions = {}) {
+    this.baseUrl = new URL(options.baseUrl ?? DEFAULT_BASE_URL);
+    this.transport = options.transport ?? httpTransport;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.rateLimiter = options.rateLimiter ?? rightmoveRateLimiter;
+    this.cache = options.cache === undefined ? rightmoveResponseCache : options.cache;
+    this.validation = options.validation ?? config.responseValidation;
+    this.onSchemaDrift = options.onSchemaDrift ?? ((report) => {
+      console.warn(`⚠️ Rightmove schema drift on ${report.endpoint}: ${formatDriftReport(report)}`);
+    });
+  }
+
+  /**
+   * Check a fresh response against its schema. Lenient mode reports drift and
+   * passes the data through untouched; strict mode rejects it.
+   */
+  private validate<T>(response: T, schema: z.ZodType<T>, endpoint: string): T {
+    if (this.validation === 'off') return response;
+
+    const report = checkSchema(schema, response, endpoint);
+    if (!report) return response;
+
+    this.onSchemaDrift(report);
+
+    if (this.validation === 'strict') {
+      throw new RightmoveSchemaError(`Response from ${endpoint} failed validation: ${formatDriftReport(report)}`, report);
+    }
+    return response;
+  }
+
   /**
-   * Search for rental properties
+   * Serve from cache if possible, otherwise fetch (joining an identical
+   * in-flight request if there is one), validate, and cache the result for ttlMs
    */
-  async searchProperties(params: PropertySearchParams): Promise<PropertySearchResult> {
-    const locationId = createLocationBox(params.latitude, params.longitude);
+  private async cachedRequest<T>(
+    path: string,
+    ttlMs: number,
+    schema: z.ZodType<T>,
+    options: RequestOptions
+  ): Promise<T> {
+    // Key on the full URL so responses from different base URLs never mix
+    const key = new URL(path, this.baseUrl).toString();
+
+    if (this.cache && !options.fresh) {
+      const cached = await this.cache.get<T>(key);
+      if (cached !== undefined) return cached;
+    }
+
+    if (options.signal?.aborted) {
+      throw new RightmoveAbortError();
+    }
+
+    let shared = inflight.get(key);
+    if (!shared) {
+      const endpoint = path.split('?')[0];
+      const controller = new AbortController();
+      const request: InflightRequest = {
+        promise: this.makeRequest<T>(path, { ...options, signal: controller.signal })
+          .then((response) => this.validate(response, schema, endpoint))
+          .then(async (response) => {
+            if (this.cache) await this.cache.set(key, response, ttlMs);
+            return response;
+          })
+          .finally(() => {
+            request.settled = true;
+            if (inflight.get(key) === request) inflight.delete(key);
+          }),
+        controller,
+        callers: 0,
+        settled: false
+      };
+      inflight.set(key, request);
+      shared = request;
+    }
+
+    return joinInflight<T>(key, shared, options.signal);
+  }
+
+  /**
+   * Make a request, retrying 429/5xx/network failures with backoff.
+   * Retry-After is honoured when present; if it asks us to wait longer than
+   * maxDelayMs we give up and surface the RightmoveRateLimitError instead.
+   * Every attempt takes a slot from the shared rate limiter.
+   */
+  private async makeRequest<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const policy = this.retryPolicy;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.rateLimiter.schedule(
+          () => requestOnce<T>(this.transport, {
+            url: new URL(path, this.baseUrl),
+            headers: { ...API_HEADERS, Host: this.baseUrl.host },
+            timeoutMs: policy.timeoutMs,
+            signal: options.signal
+          }),
+          options.signal
+        );
+      } catch (error) {
+        if (!isRetryableError(error) || attempt >= policy.maxRetries) {
+          throw error;
+        }
+
+        let delay = backoffDelay(attempt, policy);
+        if (error instanceof RightmoveRateLimitError && error.retryAfterMs !== undefined) {
+          if (error.retryAfterMs > policy.maxDelayMs) {
+            this.rateLimiter.pause(error.retryAfterMs);
+            throw error;
+          }
+          delay = Math.max(delay, error.retryAfterMs);
+        }
+        if (error instanceof RightmoveRateLimitError) {
+          // Back off everyone sharing the budget, not just this caller
+          this.rateLimiter.pause(delay);
+        }
+
+        console.warn(`API ${(error as RightmoveError).name} on ${path.split('?')[0]} - retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Search for properties to rent (default) or buy
+   */
+  async searchProperties(params: PropertySearchParams, options: RequestOptions = {}): Promise<PropertySearchResult> {
+    // A drawn area's bounds are searched as-is, with no radius on top
+    let locationId: string;
+    if (params.bounds) {
+      locationId = formatLocationBox(params.bounds);
+    } else if (params.locationIdentifier) {
+      locationId = params.locationIdentifier;
+    } else if (params.latitude != null && params.longitude != null) {
+      locationId = createLocationBox(params.latitude, params.longitude);
+    } else {
+      throw new Error('searchProperties needs a locationIdentifier or latitude/longitude');
+    }
+
+    const channel = params.channel || 'RENT';
 
     const queryParams = new URLSearchParams({
-      channel: 'RENT',
+      channel,
       locationIdentifier: locationId,
       page: String(params.page || 1),
       appVersion: '10.31',
@@ -113,7 +443,7 @@ export class RightmoveAPI {
       sortBy: params.sortBy || 'newestListed',
       includeUnavailableProperties: 'false',
       apiApplication: 'IPHONE',
-      radius: String(params.radius ?? 1)
+      radius: params.bounds ? '0' : String(params.radius ?? 1)
     });
 
     // Only add optional params if they have values (not null/undefined)
@@ -135,17 +465,38 @@ export class RightmoveAPI {
     if (params.maxBathrooms != null) {
       queryParams.set('maxBathrooms', String(params.maxBathrooms));
     }
-    if (params.furnishType) {
+    if (params.furnishType && channel === 'RENT') {
       queryParams.set('furnishTypes', params.furnishType);
     }
     if (params.propertyTypes && params.propertyTypes.length > 0) {
       queryParams.set('propertyTypes', params.propertyTypes.join(','));
     }
 
+    // Sales-only filters
+    if (channel === 'BUY') {
+      if (params.tenureTypes && params.tenureTypes.length > 0) {
+        queryParams.set('tenureTypes', params.tenureTypes.join(','));
+      }
+
+      const dontShow: string[] = [];
+      if (params.newBuild === 'exclude') dontShow.push('newHome');
+      if (params.excludeRetirement) dontShow.push('retirement');
+      if (params.excludeSharedOwnership) dontShow.push('sharedOwnership');
+      if (dontShow.length > 0) {
+        queryParams.set('dontShow', dontShow.join(','));
+      }
+    }
+
+    const mustHave: string[] = [...(params.mustHave || [])];
+    if (channel === 'BUY' && params.newBuild === 'only') mustHave.push('newHome');
+    if (mustHave.length > 0) {
+      queryParams.set('mustHave', mustHave.join(','));
+    }
+
     const path = `/api/property-listing?${queryParams.toString()}`;
     console.log('API Request:', path);
 
-    const response = await makeRequest<PropertySearchAPIResponse>(path);
+    const response = await this.cachedRequest(path, config.searchCacheTtl, PropertySearchAPIResponseSchema, options);
 
     const page = params.page || 1;
     const pageSize = params.pageSize || 25;
@@ -163,8 +514,37 @@ export class RightmoveAPI {
    * Get detailed information for a specific property
    * Includes HD images, bathrooms, full description, etc.
    */
-  async getPropertyDetails(propertyId: string | number): Promise<PropertyDetailsAPIResponse> {
+  async getPropertyDetails(propertyId: string | number, options: RequestOptions = {}): Promise<PropertyDetailsAPIResponse> {
     const path = `/api/property/${propertyId}?appVersion=10.31&apiApplication=IPHONE`;
-    return makeRequest<PropertyDetailsAPIResponse>(path);
+    return this.cachedRequest(path, config.detailsCacheTtl, PropertyDetailsAPIResponseSchema, options);
+  }
+
+  /**
+   * Iterate search result pages, following hasMore up to maxPages.
+   * Listings that shift onto a later page while we're paging are only yielded once.
+   */
+  async *searchAllPages(
+    params: PropertySearchParams,
+    options: SearchAllPagesOptions = {}
+  ): AsyncGenerator<PropertySearchPage> {
+    const maxPages = options.maxPages ?? config.maxPagesToScrape;
+    const firstPage = params.page || 1;
+    const seen = new Set<number>();
+
+    for (let page = firstPage; page < firstPage + maxPages; page++) {
+      const request = () => this.searchProperties({ ...params, page }, { signal: options.signal, fresh: options.fresh });
+      const result = await (options.fetchPage ? options.fetchPage(request) : request());
+
+      const properties = result.properties.filter(p => !seen.has(p.identifier));
+      properties.forEach(p => seen.add(p.identifier));
+
+      const candidates = options.inArea ? properties.filter(options.inArea) : properties;
+      const newProperties = options.filterNew ? await options.filterNew(candidates) : candidates;
+
+      yield { ...result, properties, newProperties, outsideArea: properties.length - candidates.length };
+
+      if (!result.hasMore || result.properties.length === 0) return;
+      if (options.filterNew && candidates.length > 0 && newProperties.length === 0) return;
+    }
   }
 }
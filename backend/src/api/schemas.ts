@@ -0,0 +1,216 @@
+/**
+ * Rightmove Response Schemas
+ * Runtime mirrors of types/rightmove.ts, used to catch upstream schema drift
+ */
+
+import { z } from 'zod';
+import {
+  PropertyListItem,
+  PropertySearchAPIResponse,
+  PropertyDetails,
+  PropertyDetailsAPIResponse
+} from '../types';
+
+// ===========================================
+// Shared
+// ===========================================
+
+const DisplayPriceSchema = z.object({
+  displayPrice: z.string(),
+  displayPriceQualifier: z.string(),
+});
+
+const ContentSectionSchema = z.object({
+  content: z.array(z.object({
+    type: z.string(),
+    title: z.string(),
+    value: z.string(),
+  })),
+});
+
+// ===========================================
+// Search (/api/property-listing)
+// ===========================================
+
+export const PropertyListItemSchema: z.ZodType<PropertyListItem> = z.object({
+  identifier: z.number(),
+  bedrooms: z.number(),
+  address: z.string(),
+  propertyType: z.string(),
+  status: z.string().nullable(),
+  transactionTypeId: z.number(),
+  photoCount: z.number(),
+  floorplanCount: z.number(),
+  price: z.number(),
+  monthlyRent: z.number(),
+  priceQualifier: z.string(),
+  photoThumbnailUrl: z.string(),
+  photoLargeThumbnailUrl: z.string(),
+  displayPrices: z.array(DisplayPriceSchema),
+  thumbnailPhotos: z.array(z.object({ url: z.string() })),
+  summary: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  branch: z.object({
+    identifier: z.number(),
+    branchLogo: z.string(),
+    brandName: z.string(),
+    name: z.string(),
+    contactTelephoneNumber: z.string(),
+  }),
+  listingUpdateReason: z.string(),
+  development: z.boolean(),
+  buildToRent: z.boolean(),
+});
+
+export const PropertySearchAPIResponseSchema: z.ZodType<PropertySearchAPIResponse> = z.object({
+  properties: z.array(PropertyListItemSchema),
+  featuredProperties: z.array(PropertyListItemSchema),
+  totalAvailableResults: z.number(),
+  numReturnedResults: z.number(),
+  radius: z.number(),
+  channel: z.string(),
+  locationInfo: z.object({
+    locationIdentifier: z.string(),
+    name: z.string(),
+    centreLatitude: z.number(),
+    centreLongitude: z.number(),
+  }),
+});
+
+// ===========================================
+// Details (/api/property/:id)
+// ===========================================
+
+export const PropertyDetailsSchema: z.ZodType<PropertyDetails> = z.object({
+  identifier: z.number(),
+  bedrooms: z.number(),
+  address: z.string(),
+  summary: z.string(),
+  fullDescription: z.string(),
+  propertySubtype: z.string(),
+  price: z.number(),
+  latitude: z.number(),
+  longitude: z.number(),
+  letFurnishType: z.string().nullish(),
+  letType: z.string().nullish(),
+  letDateAvailable: z.string().nullish(),
+  letBond: z.number().nullish(),
+  status: z.string().nullish(),
+  telephoneNumber: z.string(),
+  publicsiteUrl: z.string(),
+  branch: z.object({
+    identifier: z.number(),
+    name: z.string(),
+    brandName: z.string(),
+    branchLogo: z.string(),
+    address: z.string(),
+  }),
+  displayPrices: z.array(DisplayPriceSchema),
+  stations: z.array(z.object({
+    station: z.string(),
+    distance: z.number(),
+    type: z.string(),
+  })),
+  features: z.array(z.object({ featureDescription: z.string() })),
+  photos: z.array(z.object({
+    url: z.string(),
+    thumbnailUrl: z.string(),
+    maxSizeUrl: z.string(),
+    caption: z.string().nullable(),
+    order: z.number(),
+  })),
+  floorplans: z.array(z.object({ url: z.string(), caption: z.string().nullable() })),
+  virtualTours: z.array(z.object({ url: z.string(), caption: z.string().nullable() })),
+  analyticsInfo: z.object({
+    bathrooms: z.string(),
+    propertyType: z.string(),
+    propertySubType: z.string(),
+  }),
+  lettingsInfo: ContentSectionSchema.nullish(),
+  propertyDetailsInfo: ContentSectionSchema,
+});
+
+export const PropertyDetailsAPIResponseSchema: z.ZodType<PropertyDetailsAPIResponse> = z.object({
+  property: PropertyDetailsSchema,
+});
+
+// ===========================================
+// Schema Drift Reporting
+// ===========================================
+
+export interface SchemaDriftIssue {
+  /** Field path with array indices collapsed, e.g. properties[].branch.contactTelephoneNumber */
+  path: string;
+  kind: 'missing' | 'type_changed' | 'invalid';
+  expected?: string;
+  received?: string;
+  /** How many records on this response had the same problem */
+  count: number;
+}
+
+export interface SchemaDriftReport {
+  endpoint: string;
+  issues: SchemaDriftIssue[];
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function collapsePath(path: PropertyKey[]): string {
+  return path
+    .map(segment => typeof segment === 'number' ? '[]' : `.${String(segment)}`)
+    .join('')
+    .replace(/^\./, '') || '(root)';
+}
+
+/**
+ * Validate a response and summarise any mismatches. Returns null when the
+ * response matches the schema.
+ */
+export function checkSchema(schema: z.ZodType, data: unknown, endpoint: string): SchemaDriftReport | null {
+  const result = schema.safeParse(data, { reportInput: true });
+  if (result.success) return null;
+
+  const byKey = new Map<string, SchemaDriftIssue>();
+
+  for (const issue of result.error.issues) {
+    const path = collapsePath(issue.path);
+
+    let kind: SchemaDriftIssue['kind'] = 'invalid';
+    let expected: string | undefined;
+    let received: string | undefined;
+
+    if (issue.code === 'invalid_type') {
+      expected = String(issue.expected);
+      received = describeType(issue.input);
+      kind = issue.input === undefined ? 'missing' : 'type_changed';
+    }
+
+    const key = `${path}|${kind}|${received}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      byKey.set(key, { path, kind, expected, received, count: 1 });
+    }
+  }
+
+  return { endpoint, issues: [...byKey.values()] };
+}
+
+export function formatDriftReport(report: SchemaDriftReport): string {
+  return report.issues
+    .map(issue => {
+      const detail = issue.kind === 'missing'
+        ? `missing (expected ${issue.expected})`
+        : issue.kind === 'type_changed'
+          ? `expected ${issue.expected}, got ${issue.received}`
+          : 'invalid value';
+      return `${issue.path}: ${detail}${issue.count > 1 ? ` x${issue.count}` : ''}`;
+    })
+    .join('; ');
+}
@@ -0,0 +1,83 @@
+/**
+ * HTTP Transport
+ * The raw request layer under RightmoveAPI. Swappable so the client can talk to
+ * the local fake server (or an in-process stub) instead of api.rightmove.co.uk.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import {
+  RightmoveNetworkError,
+  RightmoveTimeoutError,
+  RightmoveAbortError
+} from './errors';
+
+export interface TransportRequest {
+  url: URL;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  /** Raw (possibly compressed) body */
+  body: Buffer;
+}
+
+/**
+ * Performs a single GET. Must reject with RightmoveNetworkError,
+ * RightmoveTimeoutError or RightmoveAbortError for transport-level failures;
+ * any HTTP status is a successful transport result.
+ */
+export type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Default transport using Node's http/https modules (picked from the URL protocol)
+ */
+export const httpTransport: Transport = ({ url, headers, timeoutMs, signal }) => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RightmoveAbortError());
+      return;
+    }
+
+    const client = url.protocol === 'http:' ? http : https;
+
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      fn();
+    };
+
+    const req = client.request(url, { method: 'GET', headers }, (res) => {
+      const chunks: Buffer[] = [];
+
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('error', (error) => settle(() => reject(new RightmoveNetworkError(`Response stream failed: ${error.message}`, error))));
+      res.on('end', () => settle(() => resolve({
+        status: res.statusCode ?? 0,
+        headers: res.headers,
+        body: Buffer.concat(chunks)
+      })));
+    });
+
+    const timer = setTimeout(() => {
+      settle(() => reject(new RightmoveTimeoutError(timeoutMs)));
+      req.destroy();
+    }, timeoutMs);
+
+    const onAbort = () => {
+      settle(() => reject(new RightmoveAbortError()));
+      req.destroy();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    req.on('error', (error) => settle(() => reject(new RightmoveNetworkError(`Request failed: ${error.message}`, error))));
+    req.end();
+  });
+};
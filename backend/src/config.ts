@@ -8,15 +8,111 @@ export const config = {
   // Sweet spot: 7 properties provides value without overwhelming users
   maxHDPropertiesPerQuery: 7,
 
-  // Number of pages to scrape from Rightmove (24 properties per page)
-  // 2 pages = 48 properties to check for new ones
+  // Max pages to scrape from Rightmove per query (25 properties per page)
+  // 2 pages = 50 properties to check for new ones; paging stops early at a page with nothing new
   maxPagesToScrape: 2,
 
-  // Delay between HD image requests (milliseconds) - important for rate limiting
-  hdImageDelay: 2000,
+  // Shared budget for ALL Rightmove requests in this process (monitor, search, onboarding)
+  // Sustained rate, burst after idling, and max requests in flight at once
+  rightmoveRequestsPerSecond: 2,
+  rightmoveBurst: 4,
+  rightmoveMaxConcurrency: 3,
+
+  // Response cache TTLs (milliseconds). Details change rarely; search pages are kept
+  // short so the monitor still sees new listings promptly
+  detailsCacheTtl: 15 * 60 * 1000,
+  searchCacheTtl: 2 * 60 * 1000,
+  responseCacheMaxEntries: 1000,
+
+  // Runtime validation of Rightmove responses against our schemas
+  // 'lenient' = log schema drift and carry on, 'strict' = reject the response, 'off' = skip
+  responseValidation: 'lenient' as 'strict' | 'lenient' | 'off',
+
+  // Monitor worker pool: users run in parallel, each with a few queries at a time,
+  // and each stage has its own cap so none of them floods Rightmove or the database.
+  // The Rightmove request rate itself is still set by the shared rate limiter above
+  monitorUserConcurrency: 4,
+  monitorQueriesPerUser: 2,
+  monitorSearchConcurrency: 3,
+  monitorDetailsConcurrency: 4,
+  monitorDbConcurrency: 4,
+
+  // Give up on a user's remaining queries after this long (milliseconds),
+  // so one slow user can't hold a worker for the whole run
+  monitorUserTimeout: 5 * 60 * 1000,
+
+  // Lease locks (monitor_lock) stop overlapping monitor processes from working on the
+  // same users. Leases are renewed while held and expire this long after a crash (milliseconds)
+  monitorLockTtl: 2 * 60 * 1000,
+
+  // A single-user run waits this long for another process to finish that user before
+  // skipping; full runs skip busy users (and other full runs) straight away
+  monitorLockWait: 60 * 1000,
+
+  // In-process scheduler (API server): every this many minutes, run the monitor over
+  // the queries that are due. MONITOR_TICK_MINUTES=0 turns scheduled runs off (refreshes still work)
+  monitorTickMinutes: Number(process.env.MONITOR_TICK_MINUTES ?? 15),
+
+  // How often a query is checked when it doesn't set check_interval_minutes (twice daily)
+  defaultCheckIntervalMinutes: 12 * 60,
+
+  // Timezone for queries' active hours and days
+  queryScheduleTimezone: 'Europe/London',
+
+  // How many monitor jobs (scheduled runs and user refreshes) may run at once
+  schedulerConcurrency: 2,
+
+  // How long finished jobs can still be polled via GET /api/monitor/jobs/:id (milliseconds)
+  schedulerJobRetention: 60 * 60 * 1000,
+
+  // Saved and grouped properties are re-fetched this often to track let agreed / removed /
+  // relisted (milliseconds), at most this many per full monitor run
+  listingStatusCheckInterval: 24 * 60 * 60 * 1000,
+  listingStatusBatchSize: 50,
+
+  // How pushes are delivered: 'native' = APNs (iOS) and FCM (Android),
+  // 'local' = record them in memory and, if PUSH_LOCAL_FILE is set, append to that file
+  pushTransport: (process.env.PUSH_TRANSPORT === 'local' ? 'local' : 'native') as 'native' | 'local',
+  pushLocalFile: process.env.PUSH_LOCAL_FILE || undefined,
+
+  // Email digests of new listings: 'smtp' (SMTP_* env vars), 'maildir' (write to
+  // EMAIL_MAILDIR for development) or 'off'
+  emailTransport: (['smtp', 'maildir'].includes(process.env.EMAIL_TRANSPORT || '')
+    ? process.env.EMAIL_TRANSPORT
+    : 'off') as 'smtp' | 'maildir' | 'off',
+  emailMaildir: process.env.EMAIL_MAILDIR || './mail',
+  emailFrom: process.env.EMAIL_FROM || 'Ijar <no-reply@localhost>',
+
+  // Public URL of this API, for links in emails (unsubscribe)
+  publicBaseUrl: process.env.PUBLIC_BASE_URL || 'http://localhost:3001',
+
+  // New-listing notifications held back to reach a user's minimum batch size go out
+  // anyway after this long (milliseconds)
+  notificationMaxHold: 24 * 60 * 60 * 1000,
+
+  // Telegram: how long a link code from POST /api/telegram/link stays valid (milliseconds),
+  // and how many listings are sent as messages per user per run (the rest are summarised)
+  telegramLinkCodeTtl: 15 * 60 * 1000,
+  telegramMaxListingsPerRun: 10,
+
+  // Telegram sends this in X-Telegram-Bot-Api-Secret-Token on webhook calls; the
+  // webhook rejects everything while it isn't set
+  telegramWebhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET || undefined,
+
+  // Device tokens the app hasn't re-registered for this long are no longer pushed to (milliseconds)
+  deviceTokenMaxAge: 180 * 24 * 60 * 60 * 1000,
 
   // Maximum number of images to store per property
-  maxImagesPerProperty: 20
+  maxImagesPerProperty: 20,
+
+  // Per-request timeout for Rightmove API calls (milliseconds)
+  requestTimeout: 15000,
+
+  // Retry policy for Rightmove API calls (429, 5xx, network errors and timeouts)
+  // Delay doubles each attempt with full jitter, capped at retryMaxDelay
+  maxRetries: 3,
+  retryBaseDelay: 500,
+  retryMaxDelay: 10000
 };
 
 export default config;
\ No newline at end of file
@@ -5,7 +5,11 @@ export class DeviceTokenController {
   constructor(private tokenService: DeviceTokenService = new DeviceTokenService()) {}
 
   async upsertToken(userId: string, data: UpsertTokenRequest) {
-    return this.tokenService.upsertToken(userId, data.token, data.deviceType);
+    return this.tokenService.upsertToken(userId, data);
+  }
+
+  async removeToken(userId: string, token: string) {
+    return this.tokenService.removeToken(userId, token);
   }
 
   async removeTokens(userId: string) {
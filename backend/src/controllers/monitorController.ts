@@ -6,4 +6,8 @@ export class MonitorController {
   async refreshProperties(userId: string) {
     return this.monitorService.refreshPropertiesForUser(userId);
   }
+
+  async getJob(userId: string, jobId: string) {
+    return this.monitorService.getJob(userId, jobId);
+  }
 }
@@ -16,6 +16,11 @@ export class QueryController {
     return this.queryService.updateQuery(userId, queryId, data);
   }
 
+  async getQueryRuns(userId: string, queryId: string, limit?: string) {
+    const parsed = limit ? parseInt(limit, 10) : NaN;
+    return this.queryService.getQueryRuns(userId, queryId, isNaN(parsed) ? undefined : parsed);
+  }
+
   async deleteQuery(userId: string, queryId: string) {
     return this.queryService.deleteQuery(userId, queryId);
   }
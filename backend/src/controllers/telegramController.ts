@@ -0,0 +1,23 @@
+import { TelegramService } from '../services/telegramService';
+import { TelegramUpdate } from '../telegram';
+
+export class TelegramController {
+  constructor(private telegramService: TelegramService = new TelegramService()) {}
+
+  async getStatus(userId: string) {
+    return this.telegramService.getStatus(userId);
+  }
+
+  async createLinkCode(userId: string) {
+    return this.telegramService.createLinkCode(userId);
+  }
+
+  async unlink(userId: string) {
+    await this.telegramService.unlink(userId);
+    return { success: true };
+  }
+
+  async handleUpdate(update: TelegramUpdate) {
+    return this.telegramService.handleUpdate(update);
+  }
+}
@@ -1,7 +1,12 @@
 import { UserService } from '../services/userService';
+import { NotificationPreferenceService } from '../services/notificationPreferenceService';
+import { EmailDigestRequest, NotificationPreferencesRequest } from '../schemas';
 
 export class UserController {
-  constructor(private userService: UserService = new UserService()) {}
+  constructor(
+    private userService: UserService = new UserService(),
+    private preferenceService: NotificationPreferenceService = new NotificationPreferenceService()
+  ) {}
 
   async getUser(userId: string) {
     return this.userService.getUser(userId);
@@ -14,4 +19,20 @@ export class UserController {
   async markOnboardingComplete(userId: string) {
     return this.userService.markOnboardingComplete(userId);
   }
+
+  async setEmailDigest(userId: string, data: EmailDigestRequest) {
+    return this.userService.setEmailDigest(userId, data.enabled);
+  }
+
+  async unsubscribeEmail(token: string) {
+    return this.userService.unsubscribeEmail(token);
+  }
+
+  async getNotificationPreferences(userId: string) {
+    return this.preferenceService.getPreferences(userId);
+  }
+
+  async updateNotificationPreferences(userId: string, data: NotificationPreferencesRequest) {
+    return this.preferenceService.updatePreferences(userId, data);
+  }
 }
@@ -0,0 +1,87 @@
+/**
+ * Digest Email
+ * Renders the new-listings digest: one section per saved search, one card per
+ * listing (photo, price, bedrooms, address, link to Rightmove)
+ */
+
+export interface DigestListing {
+  address: string;
+  price: string;
+  bedrooms: number;
+  image: string | null;
+  url: string;
+}
+
+export interface DigestSection {
+  queryName: string;
+  listings: DigestListing[];
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function bedroomsText(bedrooms: number): string {
+  if (bedrooms === 0) return 'Studio';
+  return `${bedrooms} bed${bedrooms === 1 ? '' : 's'}`;
+}
+
+export function renderNewListingsDigest(sections: DigestSection[], unsubscribeUrl: string): RenderedEmail {
+  const total = sections.reduce((sum, section) => sum + section.listings.length, 0);
+  const propertyText = total === 1 ? 'property' : 'properties';
+  const subject = sections.length === 1
+    ? `${total} new ${propertyText} in ${sections[0].queryName}`
+    : `${total} new ${propertyText} across ${sections.length} searches`;
+
+  const text = [
+    subject,
+    '',
+    ...sections.flatMap(section => [
+      `== ${section.queryName} ==`,
+      ...section.listings.map(listing =>
+        `${listing.price} - ${bedroomsText(listing.bedrooms)} - ${listing.address}\n${listing.url}`
+      ),
+      '',
+    ]),
+    `Unsubscribe from these emails: ${unsubscribeUrl}`,
+  ].join('\n');
+
+  const card = (listing: DigestListing) => `
+        <tr><td style="padding:12px 0;border-bottom:1px solid #eee">
+          <a href="${escapeHtml(listing.url)}" style="color:inherit;text-decoration:none">
+            ${listing.image ? `<img src="${escapeHtml(listing.image)}" alt="" width="560" style="display:block;width:100%;max-width:560px;border-radius:8px;margin-bottom:8px">` : ''}
+            <div style="font-size:18px;font-weight:bold">${escapeHtml(listing.price)}</div>
+            <div style="color:#555">${escapeHtml(bedroomsText(listing.bedrooms))} &middot; ${escapeHtml(listing.address)}</div>
+          </a>
+        </td></tr>`;
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;font-family:-apple-system,Helvetica,Arial,sans-serif;color:#222">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;border-collapse:collapse">
+      <tr><td><h1 style="font-size:22px">${escapeHtml(subject)}</h1></td></tr>
+      ${sections.map(section => `
+      <tr><td><h2 style="font-size:16px;margin:24px 0 0">${escapeHtml(section.queryName)}</h2></td></tr>
+      ${section.listings.map(card).join('')}`).join('')}
+      <tr><td style="padding-top:24px;font-size:12px;color:#888">
+        You're getting this because you turned on email digests in Ijar.
+        <a href="${escapeHtml(unsubscribeUrl)}" style="color:#888">Unsubscribe</a>
+      </td></tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject, text, html };
+}
@@ -0,0 +1,36 @@
+/**
+ * Email Exports
+ */
+
+import config from '../config';
+import { MaildirTransport } from './maildir';
+import { SmtpTransport } from './smtp';
+import { EmailTransport } from './transport';
+
+export { MaildirTransport } from './maildir';
+export { SmtpTransport, SmtpError } from './smtp';
+export type { SmtpOptions } from './smtp';
+export { buildMimeMessage } from './mime';
+export { renderNewListingsDigest } from './digest';
+export type { DigestListing, DigestSection, RenderedEmail } from './digest';
+export type { EmailMessage, EmailTransport } from './transport';
+
+/**
+ * The transport from config, or null when email is off (or SMTP isn't configured)
+ */
+export function createEmailTransport(): EmailTransport | null {
+  switch (config.emailTransport) {
+    case 'maildir':
+      return new MaildirTransport(config.emailMaildir);
+    case 'smtp': {
+      const options = SmtpTransport.optionsFromEnv();
+      if (!options) {
+        console.warn('⚠️ EMAIL_TRANSPORT=smtp but SMTP_HOST is not set - email digests disabled');
+        return null;
+      }
+      return new SmtpTransport(options);
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Maildir Transport
+ * Writes each message into a Maildir (tmp/ then renamed into new/) instead of
+ * sending it, for development. Point a mail client at the directory, or open
+ * the files directly - they're plain RFC 5322 messages.
+ */
+
+import { mkdir, rename, writeFile } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { buildMimeMessage } from './mime';
+import { EmailMessage, EmailTransport } from './transport';
+
+export class MaildirTransport implements EmailTransport {
+  readonly name = 'maildir';
+  private sequence = 0;
+
+  constructor(private dir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await Promise.all(['tmp', 'new', 'cur'].map(sub => mkdir(path.join(this.dir, sub), { recursive: true })));
+
+    // Maildir unique name: time.pid_sequence.host
+    const name = `${Date.now()}.${process.pid}_${this.sequence++}.${os.hostname().replace(/[/:]/g, '_')}`;
+    const tmpPath = path.join(this.dir, 'tmp', name);
+
+    await writeFile(tmpPath, buildMimeMessage(message));
+    await rename(tmpPath, path.join(this.dir, 'new', name));
+    console.log(`📝 Wrote email "${message.subject}" for ${message.to} to ${path.join(this.dir, 'new', name)}`);
+  }
+}
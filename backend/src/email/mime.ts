@@ -0,0 +1,59 @@
+/**
+ * MIME
+ * Serialise an EmailMessage as an RFC 5322 message (multipart/alternative,
+ * text and HTML), shared by the SMTP and Maildir transports
+ */
+
+import { randomUUID } from 'crypto';
+import { EmailMessage } from './transport';
+
+/** RFC 2047 encoded-word for header values that aren't plain ASCII */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/** Base64 body wrapped at 76 characters */
+function encodeBody(body: string): string {
+  return Buffer.from(body, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/** The bare address from "Name <addr>" or "addr" */
+export function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+export function buildMimeMessage(message: EmailMessage, date: Date = new Date()): string {
+  const boundary = `ijar-${randomUUID()}`;
+  const domain = addressOf(message.from).split('@')[1] || 'localhost';
+
+  const headers: Record<string, string> = {
+    From: message.from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: date.toUTCString().replace('GMT', '+0000'),
+    'Message-ID': `<${randomUUID()}@${domain}>`,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  };
+
+  const part = (contentType: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(body),
+  ].join('\r\n');
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
@@ -0,0 +1,233 @@
+/**
+ * SMTP Transport
+ * A minimal SMTP client (one connection per message): implicit TLS on port 465,
+ * otherwise STARTTLS when the server offers it, and AUTH PLAIN when credentials
+ * are set - only over TLS unless allowInsecureAuth. Digests are a handful of
+ * messages per run, so no pooling.
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+import { addressOf, buildMimeMessage } from './mime';
+import { EmailMessage, EmailTransport } from './transport';
+
+const TIMEOUT_MS = 30_000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used if offered. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Send credentials even when the connection isn't encrypted (no STARTTLS offered) */
+  allowInsecureAuth?: boolean;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Line-buffered reader/writer over one socket. Replies are queued so each
+ * command can await exactly one (possibly multi-line) reply.
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+  private onData = (chunk: Buffer) => this.receive(chunk.toString('utf8'));
+  private onError = (error: Error) => this.fail(error);
+  private onClose = () => this.fail(new SmtpError('Connection closed by server'));
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP timeout')));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(): net.Socket {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+
+      // "250-..." continues the reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({ code: parseInt(line.slice(0, 3), 10), lines: this.lines.map(l => l.slice(4)) });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /** Send a command and check the reply code is one of expected */
+  async command(line: string | null, expected: number[], label = line ?? 'greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      // Don't echo credentials into errors
+      const name = label.startsWith('AUTH') ? 'AUTH' : label;
+      throw new SmtpError(`${name} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /** Upgrade the connection in place after a successful STARTTLS */
+  async startTls(servername: string): Promise<void> {
+    const raw = this.detach();
+    const secure = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: raw, servername }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.attach(secure);
+  }
+
+  async writeData(data: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.socket.write(data, (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  close(): void {
+    this.detach().end();
+  }
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpOptions) {}
+
+  /** Options from SMTP_* env vars, or null if SMTP_HOST isn't set */
+  static optionsFromEnv(): SmtpOptions | null {
+    const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_ALLOW_INSECURE_AUTH } = process.env;
+    if (!SMTP_HOST) return null;
+
+    const port = Number(SMTP_PORT || 587);
+    return {
+      host: SMTP_HOST,
+      port,
+      secure: SMTP_SECURE ? SMTP_SECURE === 'true' : port === 465,
+      user: SMTP_USER || undefined,
+      pass: SMTP_PASS || undefined,
+      allowInsecureAuth: SMTP_ALLOW_INSECURE_AUTH === 'true'
+    };
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const session = new SmtpSession(await this.connect());
+
+    try {
+      const hostname = os.hostname() || 'localhost';
+      await session.command(null, [220]);
+      const ehlo = await session.command(`EHLO ${hostname}`, [250]);
+      let encrypted = this.options.secure;
+
+      if (!encrypted && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+        await session.command('STARTTLS', [220]);
+        await session.startTls(this.options.host);
+        await session.command(`EHLO ${hostname}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.options.user && this.options.pass) {
+        // A missing STARTTLS may have been stripped in transit - don't hand over the password
+        if (!encrypted && !this.options.allowInsecureAuth) {
+          throw new SmtpError(`${this.options.host} did not offer STARTTLS - refusing to send credentials unencrypted (set SMTP_ALLOW_INSECURE_AUTH=true to allow)`);
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+
+      // Dot-stuff lines starting with "." - the message already ends in CRLF, so "." ends DATA
+      const body = buildMimeMessage(message).replace(/^\./gm, '..');
+      await session.writeData(`${body}.\r\n`);
+      await session.command(null, [250], 'DATA');
+
+      await session.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => done())
+        : net.connect({ host, port }, () => done());
+
+      const timer = setTimeout(() => socket.destroy(new SmtpError(`Timed out connecting to ${host}:${port}`)), TIMEOUT_MS);
+      const done = () => {
+        clearTimeout(timer);
+        socket.off('error', fail);
+        resolve(socket);
+      };
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      socket.once('error', fail);
+    });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Email Transport
+ * The delivery layer under the email channel: SMTP in production, or a Maildir
+ * on disk for development.
+ */
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  /** Rejects if the message wasn't accepted */
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,8 @@
+/**
+ * Fake Rightmove Exports
+ */
+
+export { startFakeRightmoveServer } from './server';
+export type { FakeRightmoveServer, FakeRightmoveServerOptions } from './server';
+export { FakeRightmoveState, DEFAULT_FIXTURES_DIR } from './state';
+export type { ScenarioStep, FakeListingInput } from './state';
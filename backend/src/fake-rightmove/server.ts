@@ -0,0 +1,174 @@
+#!/usr/bin/env tsx
+
+/**
+ * Fake Rightmove Server
+ * Local stand-in for api.rightmove.co.uk serving recorded fixtures, so the
+ * monitor and search routes can run offline and deterministically.
+ *
+ *   npm run fake-rightmove -- --port 4010 --scenario src/fake-rightmove/fixtures/scenario.json
+ *   RIGHTMOVE_API_URL=http://localhost:4010 npm run monitor
+ *
+ * Control endpoints (for scripting between monitor runs):
+ *   GET    /__fake/state              listings, call counts, scenario progress
+ *   POST   /__fake/advance            apply the next manual scenario step
+ *   POST   /__fake/reset              reload fixtures and rewind the scenario
+ *   POST   /__fake/listings           add a listing (JSON body, identifier required)
+ *   PATCH  /__fake/listings/:id       change price and/or status ({ "price": 1900, "status": "Let agreed" })
+ *   DELETE /__fake/listings/:id       remove a listing
+ *   POST   /__fake/fail               fail next requests ({ "status": 429, "count": 2, "retryAfterSeconds": 1 })
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { FakeRightmoveState, ScenarioStep, DEFAULT_FIXTURES_DIR } from './state';
+
+export interface FakeRightmoveServerOptions {
+  port?: number;
+  fixturesDir?: string;
+  scenario?: ScenarioStep[];
+}
+
+export interface FakeRightmoveServer {
+  url: string;
+  state: FakeRightmoveState;
+  close(): Promise<void>;
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(data));
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => body += chunk.toString());
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+async function handle(state: FakeRightmoveState, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const method = req.method || 'GET';
+
+  // Control endpoints
+  if (url.pathname.startsWith('/__fake')) {
+    const listingMatch = url.pathname.match(/^\/__fake\/listings\/(\d+)$/);
+
+    if (method === 'GET' && url.pathname === '/__fake/state') {
+      return sendJson(res, 200, state.summary());
+    }
+    if (method === 'POST' && url.pathname === '/__fake/advance') {
+      const step = state.advance();
+      return sendJson(res, step ? 200 : 409, step ? { applied: step } : { error: 'No manual scenario steps left' });
+    }
+    if (method === 'POST' && url.pathname === '/__fake/reset') {
+      state.reset();
+      return sendJson(res, 200, state.summary());
+    }
+    if (method === 'POST' && url.pathname === '/__fake/listings') {
+      const body = await readJson(req);
+      if (typeof body.identifier !== 'number') {
+        return sendJson(res, 400, { error: 'identifier (number) is required' });
+      }
+      return sendJson(res, 200, state.addListing(body));
+    }
+    if (method === 'PATCH' && listingMatch) {
+      const body = await readJson(req);
+      const id = Number(listingMatch[1]);
+      let ok = true;
+      if (body.price !== undefined) ok = state.changePrice(id, Number(body.price)) && ok;
+      if (body.status !== undefined) ok = state.changeStatus(id, body.status) && ok;
+      return sendJson(res, ok ? 200 : 404, { success: ok });
+    }
+    if (method === 'DELETE' && listingMatch) {
+      const ok = state.removeListing(Number(listingMatch[1]));
+      return sendJson(res, ok ? 200 : 404, { success: ok });
+    }
+    if (method === 'POST' && url.pathname === '/__fake/fail') {
+      const body = await readJson(req);
+      state.failNext(Number(body.status) || 503, Number(body.count) || 1, body.retryAfterSeconds);
+      return sendJson(res, 200, { success: true });
+    }
+    return sendJson(res, 404, { error: 'Unknown control endpoint' });
+  }
+
+  // Rightmove API
+  if (method !== 'GET') {
+    return sendJson(res, 405, { title: 'Method Not Allowed' });
+  }
+
+  const failure = state.takeFailure();
+  if (failure) {
+    const headers = failure.retryAfterSeconds !== undefined ? { 'Retry-After': String(failure.retryAfterSeconds) } : {};
+    return sendJson(res, failure.status, { title: 'Injected failure' }, headers);
+  }
+
+  if (url.pathname === '/api/property-listing') {
+    return sendJson(res, 200, state.search(url.searchParams));
+  }
+
+  const detailsMatch = url.pathname.match(/^\/api\/property\/(\d+)$/);
+  if (detailsMatch) {
+    const details = state.getDetails(Number(detailsMatch[1]));
+    return details
+      ? sendJson(res, 200, details)
+      : sendJson(res, 404, { title: 'Not Found', detail: 'Property not found' });
+  }
+
+  return sendJson(res, 404, { title: 'Not Found' });
+}
+
+/**
+ * Start the fake server. Port 0 picks a free port (see the returned url).
+ */
+export function startFakeRightmoveServer(options: FakeRightmoveServerOptions = {}): Promise<FakeRightmoveServer> {
+  const state = new FakeRightmoveState(options.fixturesDir ?? DEFAULT_FIXTURES_DIR, options.scenario ?? []);
+
+  const server = http.createServer((req, res) => {
+    handle(state, req, res).catch((error) => {
+      sendJson(res, 500, { title: 'Fake server error', detail: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(options.port ?? 0, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://localhost:${port}`,
+        state,
+        close: () => new Promise((done) => server.close(() => done()))
+      });
+    });
+  });
+}
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const port = Number(argValue('--port') || process.env.FAKE_RIGHTMOVE_PORT || 4010);
+  const fixturesDir = argValue('--fixtures');
+  const scenarioPath = argValue('--scenario');
+  const scenario: ScenarioStep[] = scenarioPath ? JSON.parse(fs.readFileSync(scenarioPath, 'utf-8')) : [];
+
+  const server = await startFakeRightmoveServer({ port, fixturesDir, scenario });
+  const summary = server.state.summary();
+
+  console.log(`\n🧪 Fake Rightmove API running at ${server.url}`);
+  console.log(`   ${summary.listings.length} fixture listings, ${summary.stepsTotal} scenario steps`);
+  console.log(`   Point the backend at it with RIGHTMOVE_API_URL=${server.url}\n`);
+}
+
+if (require.main === module) {
+  main();
+}
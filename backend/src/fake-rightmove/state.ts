@@ -0,0 +1,339 @@
+/**
+ * Fake Rightmove State
+ * In-memory listings served by the fake server, seeded from recorded fixtures
+ * and mutated between calls by a scenario script (new listings, price and status changes, removals)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PropertyListItem,
+  PropertySearchAPIResponse,
+  PropertyDetailsAPIResponse
+} from '../types';
+
+export const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/** A listing to add - anything not given is filled in from a template */
+export type FakeListingInput = Partial<PropertyListItem> & { identifier: number };
+
+export interface ScenarioStep {
+  /** Optional label shown in logs */
+  name?: string;
+  /**
+   * Apply automatically once this many search requests have been served.
+   * Steps without it are applied in order by POST /__fake/advance.
+   */
+  afterSearchCalls?: number;
+  add?: FakeListingInput[];
+  priceChanges?: { identifier: number; price: number }[];
+  /** e.g. "Let agreed" or "Under offer"; null puts a listing back on the market */
+  statusChanges?: { identifier: number; status: string | null }[];
+  remove?: number[];
+  /** Fail the next N requests with this status (e.g. 429 or 503) to exercise retries */
+  fail?: { status: number; count: number; retryAfterSeconds?: number };
+}
+
+export interface InjectedFailure {
+  status: number;
+  retryAfterSeconds?: number;
+}
+
+function formatRent(monthlyRent: number): PropertyListItem['displayPrices'] {
+  return [
+    { displayPrice: `£${monthlyRent.toLocaleString('en-GB')} pcm`, displayPriceQualifier: '' },
+    { displayPrice: `£${Math.round(monthlyRent * 12 / 52).toLocaleString('en-GB')} pw`, displayPriceQualifier: '' }
+  ];
+}
+
+/**
+ * Build a full list item from a partial one
+ */
+function makeListing(input: FakeListingInput): PropertyListItem {
+  const id = input.identifier;
+  const rent = input.monthlyRent ?? input.price ?? 2000;
+
+  return {
+    bedrooms: 2,
+    address: `${id % 100} Fixture Road, London, SE1`,
+    propertyType: 'Flat',
+    status: null,
+    transactionTypeId: 2,
+    photoCount: 3,
+    floorplanCount: 0,
+    priceQualifier: '',
+    photoThumbnailUrl: `https://media.rightmove.co.uk/fake/${id}/thumb_0.jpeg`,
+    photoLargeThumbnailUrl: `https://media.rightmove.co.uk/fake/${id}/large_0.jpeg`,
+    thumbnailPhotos: [0, 1, 2].map(i => ({ url: `https://media.rightmove.co.uk/fake/${id}/thumb_${i}.jpeg` })),
+    summary: 'A flat to rent.',
+    latitude: 51.5,
+    longitude: -0.08,
+    branch: {
+      identifier: 1,
+      branchLogo: 'https://media.rightmove.co.uk/fake/logo/agent.png',
+      brandName: 'Fixture Lettings',
+      name: 'London Bridge',
+      contactTelephoneNumber: '020 7123 4000'
+    },
+    listingUpdateReason: 'Added today',
+    development: false,
+    buildToRent: false,
+    ...input,
+    price: rent,
+    monthlyRent: rent,
+    displayPrices: input.displayPrices ?? formatRent(rent)
+  };
+}
+
+/**
+ * Synthesise a details response for a listing that has no recorded fixture
+ */
+function detailsFromListing(item: PropertyListItem): PropertyDetailsAPIResponse {
+  return {
+    property: {
+      identifier: item.identifier,
+      bedrooms: item.bedrooms,
+      address: item.address,
+      summary: item.summary,
+      fullDescription: item.summary,
+      propertySubtype: item.propertyType,
+      price: item.monthlyRent,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      letFurnishType: 'Furnished or unfurnished',
+      letType: 'Long term',
+      letDateAvailable: 'Now',
+      letBond: Math.round(item.monthlyRent * 12 / 52 * 5),
+      status: item.status,
+      telephoneNumber: item.branch.contactTelephoneNumber,
+      publicsiteUrl: `https://www.rightmove.co.uk/properties/${item.identifier}`,
+      branch: {
+        identifier: item.branch.identifier,
+        name: item.branch.name,
+        brandName: item.branch.brandName,
+        branchLogo: item.branch.branchLogo,
+        address: `1 High Street, ${item.branch.name}, London`
+      },
+      displayPrices: item.displayPrices,
+      stations: [],
+      features: [],
+      photos: item.thumbnailPhotos.map((photo, order) => ({
+        url: photo.url,
+        thumbnailUrl: photo.url,
+        maxSizeUrl: photo.url.replace('thumb_', 'max_'),
+        caption: null,
+        order
+      })),
+      floorplans: [],
+      virtualTours: [],
+      analyticsInfo: { bathrooms: '1', propertyType: item.propertyType, propertySubType: item.propertyType },
+      lettingsInfo: { content: [] },
+      propertyDetailsInfo: { content: [] }
+    }
+  };
+}
+
+export class FakeRightmoveState {
+  /** Newest first, like Rightmove's default sort */
+  private listings: PropertyListItem[] = [];
+  private details = new Map<number, PropertyDetailsAPIResponse>();
+  private failures: InjectedFailure[] = [];
+  private applied: boolean[] = [];
+  searchCalls = 0;
+  detailCalls = 0;
+
+  constructor(
+    private fixturesDir: string = DEFAULT_FIXTURES_DIR,
+    private scenario: ScenarioStep[] = []
+  ) {
+    this.reset();
+  }
+
+  /**
+   * Reload fixtures and rewind the scenario
+   */
+  reset(): void {
+    const search: PropertySearchAPIResponse = JSON.parse(
+      fs.readFileSync(path.join(this.fixturesDir, 'property-listing.json'), 'utf-8')
+    );
+    this.listings = [...search.properties];
+
+    this.details.clear();
+    const detailsDir = path.join(this.fixturesDir, 'property');
+    if (fs.existsSync(detailsDir)) {
+      for (const file of fs.readdirSync(detailsDir).filter(f => f.endsWith('.json'))) {
+        const response: PropertyDetailsAPIResponse = JSON.parse(fs.readFileSync(path.join(detailsDir, file), 'utf-8'));
+        this.details.set(response.property.identifier, response);
+      }
+    }
+
+    this.failures = [];
+    this.applied = this.scenario.map(() => false);
+    this.searchCalls = 0;
+    this.detailCalls = 0;
+  }
+
+  // ===========================================
+  // Serving
+  // ===========================================
+
+  /** Pops an injected failure for the next request, if one is queued */
+  takeFailure(): InjectedFailure | undefined {
+    return this.failures.shift();
+  }
+
+  search(params: URLSearchParams): PropertySearchAPIResponse {
+    this.searchCalls++;
+
+    const num = (name: string) => params.has(name) ? Number(params.get(name)) : undefined;
+    const minPrice = num('minPrice');
+    const maxPrice = num('maxPrice');
+    const minBedrooms = num('minBedrooms');
+    const maxBedrooms = num('maxBedrooms');
+
+    let matches = this.listings.filter(p =>
+      (minPrice === undefined || p.monthlyRent >= minPrice) &&
+      (maxPrice === undefined || p.monthlyRent <= maxPrice) &&
+      (minBedrooms === undefined || p.bedrooms >= minBedrooms) &&
+      (maxBedrooms === undefined || p.bedrooms <= maxBedrooms)
+    );
+
+    const sortBy = params.get('sortBy');
+    if (sortBy === 'lowestPrice') matches = [...matches].sort((a, b) => a.monthlyRent - b.monthlyRent);
+    if (sortBy === 'highestPrice') matches = [...matches].sort((a, b) => b.monthlyRent - a.monthlyRent);
+    if (sortBy === 'oldestListed') matches = [...matches].reverse();
+
+    const page = num('page') || 1;
+    const pageSize = num('numberOfPropertiesPerPage') || 25;
+    const pageItems = matches.slice((page - 1) * pageSize, page * pageSize);
+
+    const response: PropertySearchAPIResponse = {
+      properties: pageItems,
+      featuredProperties: [],
+      totalAvailableResults: matches.length,
+      numReturnedResults: pageItems.length,
+      radius: num('radius') ?? 1,
+      channel: params.get('channel') || 'RENT',
+      locationInfo: {
+        locationIdentifier: params.get('locationIdentifier') || '',
+        name: 'Fake Rightmove',
+        centreLatitude: 51.5,
+        centreLongitude: -0.08
+      }
+    };
+
+    // Scripted changes take effect after this response, i.e. between calls
+    this.applyDueSteps();
+    return response;
+  }
+
+  getDetails(identifier: number): PropertyDetailsAPIResponse | null {
+    this.detailCalls++;
+
+    const item = this.listings.find(p => p.identifier === identifier);
+    if (!item) return null;
+
+    return this.details.get(identifier) ?? detailsFromListing(item);
+  }
+
+  // ===========================================
+  // Mutations
+  // ===========================================
+
+  addListing(input: FakeListingInput): PropertyListItem {
+    const item = makeListing(input);
+    this.listings = [item, ...this.listings.filter(p => p.identifier !== item.identifier)];
+    return item;
+  }
+
+  changePrice(identifier: number, monthlyRent: number): boolean {
+    const item = this.listings.find(p => p.identifier === identifier);
+    if (!item) return false;
+
+    const reason = monthlyRent < item.monthlyRent ? 'Reduced today' : 'Price changed today';
+    Object.assign(item, {
+      price: monthlyRent,
+      monthlyRent,
+      displayPrices: formatRent(monthlyRent),
+      listingUpdateReason: reason
+    });
+
+    const details = this.details.get(identifier);
+    if (details) {
+      details.property.price = monthlyRent;
+      details.property.displayPrices = item.displayPrices;
+    }
+    return true;
+  }
+
+  changeStatus(identifier: number, status: string | null): boolean {
+    const item = this.listings.find(p => p.identifier === identifier);
+    if (!item) return false;
+
+    item.status = status;
+    const details = this.details.get(identifier);
+    if (details) {
+      details.property.status = status;
+    }
+    return true;
+  }
+
+  removeListing(identifier: number): boolean {
+    const before = this.listings.length;
+    this.listings = this.listings.filter(p => p.identifier !== identifier);
+    return this.listings.length < before;
+  }
+
+  failNext(status: number, count: number, retryAfterSeconds?: number): void {
+    for (let i = 0; i < count; i++) {
+      this.failures.push({ status, retryAfterSeconds });
+    }
+  }
+
+  // ===========================================
+  // Scenario
+  // ===========================================
+
+  /**
+   * Apply the next manual (non-automatic) step. Returns null when none are left.
+   */
+  advance(): ScenarioStep | null {
+    const index = this.scenario.findIndex((step, i) => !this.applied[i] && step.afterSearchCalls === undefined);
+    if (index === -1) return null;
+
+    this.applyStep(index);
+    return this.scenario[index];
+  }
+
+  private applyDueSteps(): void {
+    this.scenario.forEach((step, i) => {
+      if (!this.applied[i] && step.afterSearchCalls !== undefined && this.searchCalls >= step.afterSearchCalls) {
+        this.applyStep(i);
+      }
+    });
+  }
+
+  private applyStep(index: number): void {
+    const step = this.scenario[index];
+    this.applied[index] = true;
+
+    console.log(`🎬 Fake Rightmove: applying step ${index + 1}${step.name ? ` (${step.name})` : ''}`);
+
+    step.add?.forEach(input => this.addListing(input));
+    step.priceChanges?.forEach(change => this.changePrice(change.identifier, change.price));
+    step.statusChanges?.forEach(change => this.changeStatus(change.identifier, change.status));
+    step.remove?.forEach(id => this.removeListing(id));
+    if (step.fail) this.failNext(step.fail.status, step.fail.count, step.fail.retryAfterSeconds);
+  }
+
+  summary() {
+    return {
+      listings: this.listings.map(p => ({ identifier: p.identifier, address: p.address, monthlyRent: p.monthlyRent })),
+      searchCalls: this.searchCalls,
+      detailCalls: this.detailCalls,
+      pendingFailures: this.failures.length,
+      stepsApplied: this.applied.filter(Boolean).length,
+      stepsTotal: this.scenario.length
+    };
+  }
+}
@@ -1,32 +1,297 @@
 #!/usr/bin/env tsx
 
 import 'dotenv/config';
-import { RightmoveAPI } from './api';
-import { SupabaseService, PushNotificationService } from './services';
-import { DbQuery, PropertyListItem, PropertyWithDetails } from './types';
+import {
+  RightmoveAPI,
+  RightmoveError,
+  RightmoveNotFoundError,
+  RightmoveRateLimitError,
+  RightmoveAbortError,
+  RightmoveAPIOptions,
+  SchemaDriftReport,
+  formatDriftReport
+} from './api';
+import {
+  SupabaseService,
+  PushNotificationService,
+  PriceTrackingService,
+  ListingStatusService,
+  EmailDigestService,
+  TelegramService,
+  NotificationPreferenceService,
+  propertyNotificationPayload,
+  priceDropNotificationPayload,
+  statusChangeNotificationPayload
+} from './services';
+import {
+  DbQuery,
+  DbMonitorRun,
+  DbPendingNotification,
+  NotificationPreferences,
+  MonitorRunStatus,
+  MonitorQueryResultStatus,
+  PropertyListItem,
+  PropertyWithDetails,
+  SearchChannel
+} from './types';
+import { MonitorRunRepository } from './repositories/monitorRunRepository';
+import { MonitorLockRepository } from './repositories/monitorLockRepository';
+import { PropertyRepository } from './repositories/propertyRepository';
+import { PriceHistoryRepository } from './repositories/priceHistoryRepository';
+import { ListingStatusRepository } from './repositories/listingStatusRepository';
+import { UserRepository } from './repositories/userRepository';
+import { TelegramRepository } from './repositories/telegramRepository';
+import { NotificationPreferenceRepository } from './repositories/notificationPreferenceRepository';
+import { PendingNotificationRepository } from './repositories/pendingNotificationRepository';
+import { QueryRepository } from './repositories/queryRepository';
+import { UserPropertyActionRepository } from './repositories/userPropertyActionRepository';
+import { PropertyService } from './services/propertyService';
+import { createEmailTransport } from './email';
+import { TelegramBotAPI } from './telegram';
+import { NotificationPayload } from './push';
 import config from './config';
+import { queryToSearchParams } from './utils/searchParams';
+import { ListingFilters, listingFiltersFor, matchListingFilters } from './utils/listingFilters';
+import { pointInArea } from './utils/geo';
+import { Semaphore, mapPool } from './utils/concurrency';
+import { isQueryDue } from './utils/schedule';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DeliveryDecision,
+  decideListingDelivery,
+  hasEnabledChannel,
+  quietHoursEnd
+} from './utils/notificationSchedule';
+import { Lease, LeaseStore } from './utils/lease';
+import { displayPriceFor } from './utils/price';
 import { createClient } from '@supabase/supabase-js';
+import { parseArgs } from 'util';
 
-class PropertyMonitor {
-  private api: RightmoveAPI;
+// Share of processed listings with each agent field, as whole percentages
+interface DataQuality {
+  agentPhonePct: number;
+  agentNamePct: number;
+  branchNamePct: number;
+}
+
+// What one query saw during a run - persisted as a monitor_query_result row
+interface QueryRunStats {
+  /** Properties saved and linked to the query */
+  newCount: number;
+  errors: string[];
+  /** The query threw rather than finishing with partial errors */
+  failed: boolean;
+  pagesFetched: number;
+  returned: number;
+  outsideArea: number;
+  /** Listings not seen before, before the top-N cut and filters */
+  newFound: number;
+  /** Saved and linked - or in a dry run, what would have been */
+  linked: ListingReport[];
+  excluded: { rightmoveId: number; reason: string }[];
+  quality: DataQuality | null;
+}
+
+function queryStatus(stats: QueryRunStats): MonitorQueryResultStatus {
+  return stats.failed ? 'failed' : stats.errors.length > 0 ? 'partial' : 'success';
+}
+
+export interface ListingReport {
+  rightmoveId: number;
+  address: string;
+  price: string;
+  bedrooms: number;
+  image: string | null;
+  url: string;
+}
+
+/** What happened to one query - the explain output of the CLI */
+export interface QueryReport {
+  queryId: string;
+  name: string;
+  userId: string;
+  status: MonitorQueryResultStatus;
+  pagesFetched: number;
+  returned: number;
+  outsideArea: number;
+  newFound: number;
+  linked: ListingReport[];
+  excluded: { rightmoveId: number; reason: string }[];
+  errors: string[];
+}
+
+/** One query's new listings, for the push, email digest and Telegram */
+interface NewListingsSection {
+  queryId: string;
+  queryName: string;
+  listings: ListingReport[];
+}
+
+type NotificationChannel = 'push' | 'email' | 'telegram';
+
+export interface NotificationReport {
+  userId: string;
+  channel: NotificationChannel;
+  title: string;
+  body: string;
+  /** 'not_sent' in dry runs and when notifications are off; 'held' by the user's preferences */
+  status: 'sent' | 'failed' | 'not_sent' | 'held';
+  /** For 'held': when it will be looked at again (null = waiting for more listings) */
+  heldUntil?: string | null;
+}
+
+const countListings = (sections: NewListingsSection[]) =>
+  sections.reduce((sum, section) => sum + section.listings.length, 0);
+
+// Combine sections for the same query (held from earlier runs and new), without repeating listings
+function mergeSections(sections: NewListingsSection[]): NewListingsSection[] {
+  const merged = new Map<string, NewListingsSection>();
+  for (const section of sections) {
+    const existing = merged.get(section.queryId);
+    if (!existing) {
+      merged.set(section.queryId, { ...section, listings: [...section.listings] });
+      continue;
+    }
+    const seen = new Set(existing.listings.map(listing => listing.rightmoveId));
+    existing.listings.push(...section.listings.filter(listing => !seen.has(listing.rightmoveId)));
+  }
+  return [...merged.values()];
+}
+
+function heldSection(row: DbPendingNotification): NewListingsSection {
+  return { queryId: row.query_id ?? '', queryName: row.query_name ?? 'Your search', listings: row.listings ?? [] };
+}
+
+function earliest(times: (string | null | undefined)[]): Date | null {
+  const parsed = times.filter((time): time is string => !!time).map(time => Date.parse(time));
+  return parsed.length > 0 ? new Date(Math.min(...parsed)) : null;
+}
+
+// Lease keys - one for full runs, one per user
+const GLOBAL_LOCK_KEY = 'monitor:all';
+const userLockKey = (userId: string) => `monitor:user:${userId.toLowerCase()}`;
+
+/** Outcome of PropertyMonitor.run, also reported as a scheduler job's result */
+export interface MonitorRunSummary {
+  /** monitor_run row id, or null if history couldn't be recorded (or the run was skipped) */
+  runId: string | null;
+  /** 'skipped' when another process already holds the full-run lease */
+  status: MonitorRunStatus | 'skipped';
+  error: string | null;
+  usersProcessed: number;
+  queriesProcessed: number;
+  newProperties: number;
+  dryRun: boolean;
+  queries: QueryReport[];
+  notifications: NotificationReport[];
+  /** Rightmove schema drift seen by this run: occurrences per endpoint, field and kind */
+  schemaDrift: Record<string, number>;
+}
+
+export interface MonitorRunOptions {
+  /** Skip queries that aren't due yet or are outside their active hours */
+  onlyDue?: boolean;
+  /** Only run this saved query */
+  queryId?: string;
+  /** Search and report, but don't write to the database, take locks or send pushes */
+  dryRun?: boolean;
+  /** Search result pages per query (default config.maxPagesToScrape) */
+  maxPages?: number;
+}
+
+/**
+ * What the monitor otherwise builds for itself against Supabase and the real
+ * Rightmove API - tests pass in-memory versions and point the client at the fake server
+ */
+export interface PropertyMonitorDeps {
+  /** Rightmove client settings, e.g. baseUrl */
+  api: RightmoveAPIOptions;
+  supabase: SupabaseService;
+  /** Used when notify is on */
+  push: PushNotificationService;
+  preferences: NotificationPreferenceService;
+  pending: PendingNotificationRepository;
+  runs: MonitorRunRepository;
+  locks: LeaseStore;
+  prices: PriceTrackingService;
+  listingStatuses: ListingStatusRepository;
+}
+
+// Per-run settings and Rightmove client, plus the report built up as queries finish
+interface RunContext {
+  runId: string | null;
+  dryRun: boolean;
+  maxPages: number;
+  api: RightmoveAPI;
+  statuses: ListingStatusService;
+  queries: QueryReport[];
+  notifications: NotificationReport[];
+  schemaDrift: Map<string, number>;
+}
+
+export class PropertyMonitor {
+  private apiOptions: RightmoveAPIOptions;
   private supabase: SupabaseService;
-  private notificationService: PushNotificationService;
+  private notificationService: PushNotificationService | null;
+  private emailDigest: EmailDigestService | null;
+  private telegram: TelegramService | null;
+  private preferences: NotificationPreferenceService;
+  private pending: PendingNotificationRepository;
+  private runs: MonitorRunRepository;
+  private locks: LeaseStore;
+  private prices: PriceTrackingService;
+  private listingStatuses: ListingStatusRepository;
 
-  constructor() {
-    this.api = new RightmoveAPI();
-    this.supabase = new SupabaseService();
+  // Per-stage caps shared by every user and query in the run
+  private stages = {
+    search: new Semaphore(config.monitorSearchConcurrency),
+    details: new Semaphore(config.monitorDetailsConcurrency),
+    db: new Semaphore(config.monitorDbConcurrency)
+  };
+
+  // notify: false skips push, email and Telegram entirely, so the monitor can run without credentials
+  constructor({ notify = true }: { notify?: boolean } = {}, deps: Partial<PropertyMonitorDeps> = {}) {
+    this.apiOptions = deps.api ?? {};
+    this.supabase = deps.supabase ?? new SupabaseService();
 
     const supabaseClient = createClient(
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    this.notificationService = new PushNotificationService(supabaseClient);
+    this.notificationService = notify ? deps.push ?? new PushNotificationService(supabaseClient) : null;
+    const userRepo = new UserRepository(supabaseClient);
+    const emailTransport = notify ? createEmailTransport() : null;
+    this.emailDigest = emailTransport
+      ? new EmailDigestService(emailTransport, userRepo)
+      : null;
+    const telegramBot = notify ? TelegramBotAPI.fromEnv() : null;
+    this.telegram = telegramBot
+      ? new TelegramService(
+          telegramBot,
+          new TelegramRepository(supabaseClient),
+          new PropertyService(new PropertyRepository(supabaseClient), new UserPropertyActionRepository(supabaseClient))
+        )
+      : null;
+    this.pending = deps.pending ?? new PendingNotificationRepository(supabaseClient);
+    this.preferences = deps.preferences ?? new NotificationPreferenceService(
+      new NotificationPreferenceRepository(supabaseClient),
+      userRepo,
+      new QueryRepository(supabaseClient),
+      this.pending
+    );
+    this.runs = deps.runs ?? new MonitorRunRepository(supabaseClient);
+    this.locks = deps.locks ?? new MonitorLockRepository(supabaseClient);
+    this.prices = deps.prices ?? new PriceTrackingService(
+      new PropertyRepository(supabaseClient),
+      new PriceHistoryRepository(supabaseClient)
+    );
+    this.listingStatuses = deps.listingStatuses ?? new ListingStatusRepository(supabaseClient);
   }
 
   // Log data quality metrics for properties
-  private logDataQuality(properties: PropertyListItem[], queryName: string): void {
-    if (properties.length === 0) return;
+  private logDataQuality(properties: PropertyListItem[], queryName: string): DataQuality | null {
+    if (properties.length === 0) return null;
 
     let missingAgentPhone = 0;
     let missingAgentName = 0;
@@ -68,6 +333,97 @@ class PropertyMonitor {
     if (nameSuccessRate < 0.8) {
       console.log(`    🚨 LOW NAME DATA QUALITY: Only ${Math.round(nameSuccessRate * 100)}% of properties have agent names`);
     }
+
+    return {
+      agentPhonePct: Math.round(phoneSuccessRate * 100),
+      agentNamePct: Math.round(nameSuccessRate * 100),
+      branchNamePct: Math.round((total - missingBranchName) / total * 100)
+    };
+  }
+
+  // ===========================================
+  // Run history (monitor_run / monitor_query_result)
+  // Failing to record history is logged but never stops the run
+  // ===========================================
+
+  private async startRunRecord(targetUserId?: string): Promise<string | null> {
+    try {
+      const run = await this.runs.startRun(targetUserId);
+      return run.id ?? null;
+    } catch (error) {
+      console.warn('⚠️ Could not record monitor run:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async finishRunRecord(runId: string | null, updates: Partial<DbMonitorRun>): Promise<void> {
+    if (!runId) return;
+    try {
+      await this.runs.finishRun(runId, updates);
+    } catch (error) {
+      console.warn('⚠️ Could not finish monitor run record:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async recordQueryResult(runId: string | null, query: DbQuery, startedAt: Date, stats: QueryRunStats): Promise<void> {
+    if (!runId) return;
+    try {
+      await this.runs.insertQueryResult({
+        run_id: runId,
+        query_id: query.id!,
+        user_id: query.user_id!,
+        started_at: startedAt.toISOString(),
+        finished_at: new Date().toISOString(),
+        status: queryStatus(stats),
+        pages_fetched: stats.pagesFetched,
+        returned_count: stats.returned,
+        outside_area_count: stats.outsideArea,
+        new_count: stats.newFound,
+        excluded_count: stats.excluded.length,
+        saved_count: stats.newCount,
+        errors: stats.errors,
+        agent_phone_pct: stats.quality?.agentPhonePct ?? null,
+        agent_name_pct: stats.quality?.agentNamePct ?? null,
+        branch_name_pct: stats.quality?.branchNamePct ?? null
+      });
+    } catch (error) {
+      console.warn(`    ⚠️ Could not record results for query ${query.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // ===========================================
+  // Overlapping-run locks (monitor_lock)
+  // ===========================================
+
+  // Null if another process holds the lease, or it couldn't be checked - either way,
+  // skipping is safer than risking duplicate saves and pushes
+  private async acquireLease(key: string, waitMs: number): Promise<Lease | null> {
+    try {
+      return await Lease.acquire(this.locks, key, { ttlMs: config.monitorLockTtl, waitMs });
+    } catch (error) {
+      console.warn(`⚠️ Could not acquire lease ${key}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // Log a Rightmove schema drift report and tally it for the end-of-run summary
+  private recordSchemaDrift(tally: Map<string, number>, report: SchemaDriftReport): void {
+    console.warn(`    🧬 Schema drift on ${report.endpoint}: ${formatDriftReport(report)}`);
+
+    for (const issue of report.issues) {
+      const key = `${report.endpoint} ${issue.path} (${issue.kind}${issue.received ? `: ${issue.received}` : ''})`;
+      tally.set(key, (tally.get(key) || 0) + issue.count);
+    }
+  }
+
+  private logSchemaDriftSummary(tally: Map<string, number>): void {
+    if (tally.size === 0) return;
+
+    console.warn(`\n🧬 Rightmove schema drift detected on ${tally.size} field(s) this run:`);
+    const sorted = [...tally.entries()].sort((a, b) => b[1] - a[1]);
+    for (const [field, count] of sorted) {
+      console.warn(`  • ${field} x${count}`);
+    }
   }
 
   // Helper function to group queries by user_id
@@ -86,14 +442,66 @@ class PropertyMonitor {
     return grouped;
   }
 
-  async run(targetUserId?: string): Promise<void> {
+  async run(targetUserId?: string, options: MonitorRunOptions = {}): Promise<MonitorRunSummary> {
     const timestamp = new Date().toLocaleString();
-    if (targetUserId) {
+    if (options.queryId) {
+      console.log(`[${timestamp}] 🔍 Processing query: ${options.queryId}`);
+    } else if (targetUserId) {
       console.log(`[${timestamp}] 🔍 Processing queries for user: ${targetUserId}`);
     } else {
       console.log(`[${timestamp}] 🔍 Processing all user queries from database`);
     }
 
+    const dryRun = options.dryRun ?? false;
+    if (dryRun) {
+      console.log('🧪 Dry run - nothing will be saved and no notifications sent');
+    }
+
+    // A client per run so drift is tallied per run, even with runs side by side in the
+    // scheduler - clients still share the process-wide rate limiter and cache
+    const schemaDrift = new Map<string, number>();
+    const api = new RightmoveAPI({
+      ...this.apiOptions,
+      onSchemaDrift: (report) => this.recordSchemaDrift(schemaDrift, report)
+    });
+    const ctx: RunContext = {
+      runId: null,
+      dryRun,
+      maxPages: options.maxPages ?? config.maxPagesToScrape,
+      api,
+      statuses: new ListingStatusService(api, this.listingStatuses),
+      queries: [],
+      notifications: [],
+      schemaDrift
+    };
+    const targeted = !!(targetUserId || options.queryId);
+
+    // Only one full run at a time; a targeted run relies on the per-user lease.
+    // Dry runs write nothing, so they don't need (or block others with) leases
+    let globalLease: Lease | null = null;
+    if (!targeted && !dryRun) {
+      globalLease = await this.acquireLease(GLOBAL_LOCK_KEY, 0);
+      if (!globalLease) {
+        console.log('⏭️ Another full monitor run is in progress - skipping');
+        return { runId: null, status: 'skipped', error: null, usersProcessed: 0, queriesProcessed: 0, newProperties: 0, dryRun, queries: [], notifications: [], schemaDrift: {} };
+      }
+    }
+
+    ctx.runId = dryRun ? null : await this.startRunRecord(targetUserId);
+    const counts = { usersProcessed: 0, queriesProcessed: 0, newProperties: 0 };
+    let status: MonitorRunStatus = 'completed';
+    let runError: string | null = null;
+    const summary = (): MonitorRunSummary => ({
+      runId: ctx.runId,
+      status,
+      error: runError,
+      ...counts,
+      dryRun,
+      queries: ctx.queries,
+      notifications: ctx.notifications,
+      schemaDrift: Object.fromEntries(ctx.schemaDrift)
+    });
+
     try {
       // Get all active queries from Supabase
       const userQueries = await this.supabase.getActiveQueries();
@@ -101,174 +509,816 @@ class PropertyMonitor {
 
       if (userQueries.length === 0) {
         console.log('📭 No active queries to process');
-        return;
+        return summary();
       }
 
       // Filter by user if targetUserId is provided
-      const filteredQueries = targetUserId
+      let userFiltered = targetUserId
         ? userQueries.filter(q => q.user_id?.toLowerCase() === targetUserId.toLowerCase())
         : userQueries;
 
-      if (targetUserId && filteredQueries.length === 0) {
+      if (targetUserId && userFiltered.length === 0) {
         console.log(`📭 No active queries found for user: ${targetUserId}`);
-        return;
+        return summary();
+      }
+
+      if (options.queryId) {
+        userFiltered = userFiltered.filter(q => q.id === options.queryId);
+        if (userFiltered.length === 0) {
+          console.log(`📭 No active query found with id: ${options.queryId}`);
+          return summary();
+        }
+      }
+
+      // Scheduled runs only pick up queries whose interval has elapsed, within their active hours
+      const now = new Date();
+      const filteredQueries = options.onlyDue
+        ? userFiltered.filter(q => isQueryDue(q, now))
+        : userFiltered;
+
+      if (options.onlyDue) {
+        console.log(`⏰ ${filteredQueries.length} queries due, ${userFiltered.length - filteredQueries.length} not due yet`);
+        if (filteredQueries.length === 0) {
+          // Quiet hours and digest times end between query checks too
+          if (!targeted && !dryRun) await this.deliverHeldNotifications(ctx);
+          return summary();
+        }
       }
 
       // Group queries by user_id
-      const queriesByUser = this.groupQueriesByUser(filteredQueries);
-      console.log(`👥 Processing queries for ${queriesByUser.size} users`);
+      const queriesByUser = [...this.groupQueriesByUser(filteredQueries)];
+      console.log(`👥 Processing queries for ${queriesByUser.length} users (${config.monitorUserConcurrency} at a time)`);
+      counts.usersProcessed = queriesByUser.length;
+      counts.queriesProcessed = queriesByUser.reduce((sum, [, queries]) => sum + queries.length, 0);
+
+      // Each user is an isolated task - a slow or failing user only ties up its own worker
+      const userLockWait = targeted ? config.monitorLockWait : 0;
+      const results = await mapPool(queriesByUser, config.monitorUserConcurrency, async ([userId, queries]) => {
+        // Another full run has taken over - leave the remaining users to it
+        if (globalLease?.lost) return 0;
+        return this.processUser(userId, queries, ctx, userLockWait);
+      });
 
       let totalNewProperties = 0;
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          totalNewProperties += result.value;
+        } else {
+          console.error(`❌ Error processing user ${queriesByUser[index][0]}:`, result.reason);
+        }
+      });
+
+      counts.newProperties = totalNewProperties;
+      console.log(`\n✅ Completed processing all queries. Total new properties: ${totalNewProperties}`);
+      this.logSchemaDriftSummary(ctx.schemaDrift);
 
-      // Process each user's queries
-      for (const [userId, queries] of queriesByUser) {
-        console.log(`\n👤 Processing ${queries.length} queries for user: ${userId}`);
-        let userNewProperties = 0;
+      // Drops seen by this run (or by SearchService since the last one) and status changes
+      // on saved properties go out after full runs
+      if (!targeted && !dryRun) {
+        await this.deliverHeldNotifications(ctx);
+        await this.sendPriceDropAlerts(ctx);
+        await this.recheckListingStatuses(ctx);
+        await this.sendStatusAlerts(ctx);
+      }
 
-        // Process all queries for this user
-        for (const query of queries) {
-          console.log(`  🔍 Processing query: ${query.name}`);
+    } catch (error) {
+      console.error('❌ Error processing user queries:', error);
+      status = 'failed';
+      runError = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      await globalLease?.release();
+      await this.finishRunRecord(ctx.runId, {
+        status,
+        error: runError,
+        users_processed: counts.usersProcessed,
+        queries_processed: counts.queriesProcessed,
+        new_properties: counts.newProperties
+      });
+    }
 
-          try {
-            const processResult = await this.processQuery(query);
-            userNewProperties += processResult.newCount;
+    return summary();
+  }
 
-            if (processResult.newCount > 0) {
-              console.log(`    🎉 Added ${processResult.newCount} new properties for query: ${query.name}`);
-            } else {
-              console.log(`    📭 No new properties for query: ${query.name}`);
-            }
+  // Run one user's queries (a few at a time) and send their notification. Returns the new property count.
+  private async processUser(userId: string, queries: DbQuery[], ctx: RunContext, lockWaitMs: number): Promise<number> {
+    if (ctx.dryRun) {
+      return this.processUserQueries(userId, queries, ctx, null);
+    }
 
-            if (processResult.errors.length > 0) {
-              console.warn(`    ⚠️ Some errors occurred:`, processResult.errors.slice(0, 3));
-            }
+    const lease = await this.acquireLease(userLockKey(userId), lockWaitMs);
+    if (!lease) {
+      console.log(`\n⏭️ User ${userId} is being processed by another run - skipping`);
+      return 0;
+    }
 
-          } catch (error) {
-            console.error(`    ❌ Error processing query ${query.name}:`, error);
-          }
+    try {
+      return await this.processUserQueries(userId, queries, ctx, lease);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  private async processUserQueries(userId: string, queries: DbQuery[], ctx: RunContext, lease: Lease | null): Promise<number> {
+    console.log(`\n👤 Processing ${queries.length} queries for user: ${userId}`);
+
+    // Aborts this user's outstanding Rightmove requests once their time is up, or if
+    // the lease is lost and another process may already be doing the same work
+    const timeout = AbortSignal.timeout(config.monitorUserTimeout);
+    const signal = lease ? AbortSignal.any([timeout, lease.signal]) : timeout;
+    let userNewProperties = 0;
+    const newListings: NewListingsSection[] = [];
+
+    await mapPool(queries, config.monitorQueriesPerUser, async (query) => {
+      console.log(`  🔍 Processing query: ${query.name}`);
+      const startedAt = new Date();
+
+      try {
+        const processResult = await this.processQuery(query, ctx, signal);
+        ctx.queries.push({
+          queryId: query.id!,
+          name: query.name,
+          userId,
+          status: queryStatus(processResult),
+          pagesFetched: processResult.pagesFetched,
+          returned: processResult.returned,
+          outsideArea: processResult.outsideArea,
+          newFound: processResult.newFound,
+          linked: processResult.linked,
+          excluded: processResult.excluded,
+          errors: processResult.errors
+        });
+        await this.recordQueryResult(ctx.runId, query, startedAt, processResult);
+        if (!processResult.failed && !ctx.dryRun) {
+          // Measured from the start so the next check lands a full interval after this one
+          await this.supabase.markQueryChecked(query.id!, startedAt);
+        }
+        userNewProperties += processResult.newCount;
+        if (processResult.linked.length > 0) {
+          newListings.push({ queryId: query.id!, queryName: query.name, listings: processResult.linked });
         }
 
-        if (userNewProperties > 0 && this.notificationService) {
-          console.log(`  🔔 Sending notification to user ${userId}: ${userNewProperties} new properties across ${queries.length} queries`);
-
-          try {
-            // Include query name for single query notifications
-            const queryName = queries.length === 1 ? queries[0].name : undefined;
-
-            const notificationResult = await this.notificationService.sendPropertyNotification(
-              userId,
-              userNewProperties,
-              queries.length,
-              queryName
-            );
-
-            if (notificationResult.success) {
-              console.log(`  ✅ Notification sent successfully to user ${userId}`);
-            } else {
-              console.warn(`  ⚠️ Notification failed for user ${userId}:`, notificationResult.errors);
-            }
-          } catch (error) {
-            console.error(`  ❌ Error sending notification to user ${userId}:`, error);
-          }
+        if (processResult.newCount > 0) {
+          console.log(`    🎉 ${ctx.dryRun ? 'Would add' : 'Added'} ${processResult.newCount} new properties for query: ${query.name}`);
         } else {
-          console.log(`  📭 No new properties for user ${userId}, skipping notification`);
+          console.log(`    📭 No new properties for query: ${query.name}`);
+        }
+
+        if (processResult.errors.length > 0) {
+          console.warn(`    ⚠️ Some errors occurred for query ${query.name}:`, processResult.errors.slice(0, 3));
         }
 
-        totalNewProperties += userNewProperties;
+      } catch (error) {
+        console.error(`    ❌ Error processing query ${query.name}:`, error);
       }
+    });
 
-      console.log(`\n✅ Completed processing all queries. Total new properties: ${totalNewProperties}`);
+    if (lease?.lost) {
+      console.warn(`  ⚠️ Lost the lease for user ${userId}, skipping notification`);
+    } else if (newListings.length > 0 && !this.canNotify && !ctx.dryRun) {
+      // Nothing to send with - leave anything held for a run that can
+      console.log(`  🔕 Notifications are off for this run, skipping user ${userId}`);
+    } else if (newListings.length > 0) {
+      const prefs = await this.preferencesFor(userId);
+      const held = await this.heldNotificationsFor(userId);
+      await this.notifyNewListings(userId, prefs, newListings, held.filter(row => row.kind === 'new_listings'), ctx);
+    } else {
+      console.log(`  📭 No new properties for user ${userId}, skipping notification`);
+    }
+
+    return userNewProperties;
+  }
 
+  // ===========================================
+  // Notification preferences
+  // Muted queries, channels, quiet hours, digest delivery and minimum batch size
+  // decide whether notifications go out now or wait in pending_notification
+  // ===========================================
+
+  private get canNotify(): boolean {
+    return !!(this.notificationService || this.emailDigest || this.telegram);
+  }
+
+  // Falls back to the defaults so a read failure doesn't silence anyone. Email stays on:
+  // the digest service checks the user's own email setting anyway
+  private async preferencesFor(userId: string): Promise<NotificationPreferences> {
+    try {
+      return await this.preferences.getPreferences(userId);
     } catch (error) {
-      console.error('❌ Error processing user queries:', error);
+      console.warn(`  ⚠️ Could not load notification preferences for user ${userId}:`, error instanceof Error ? error.message : error);
+      return { ...DEFAULT_NOTIFICATION_PREFERENCES, channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, email: true } };
+    }
+  }
+
+  private async heldNotificationsFor(userId: string): Promise<DbPendingNotification[]> {
+    try {
+      return await this.pending.findByUserId(userId);
+    } catch (error) {
+      console.warn(`  ⚠️ Could not load held notifications for user ${userId}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  // Send new listings, together with any held from earlier runs, or hold them all
+  // until the user's preferences allow. fresh is empty when only held listings came due.
+  private async notifyNewListings(
+    userId: string,
+    prefs: NotificationPreferences,
+    fresh: NewListingsSection[],
+    held: DbPendingNotification[],
+    ctx: RunContext
+  ): Promise<void> {
+    const isMuted = (section: NewListingsSection) => prefs.mutedQueryIds.includes(section.queryId);
+    const unmuted = fresh.filter(section => !isMuted(section));
+    if (unmuted.length < fresh.length) {
+      console.log(`  🔇 Not notifying about ${fresh.length - unmuted.length} muted queries`);
+    }
+
+    const sections = mergeSections([...held.map(heldSection), ...unmuted]).filter(section => !isMuted(section));
+    if (sections.length === 0 || !hasEnabledChannel(prefs)) {
+      if (!hasEnabledChannel(prefs)) {
+        console.log(`  🔕 User ${userId} has turned off all notification channels`);
+      }
+      // Nothing will ever send what's held - drop it
+      if (!ctx.dryRun) await this.discardHeld(held);
+      return;
+    }
+
+    const count = countListings(sections);
+    const decision = decideListingDelivery(prefs, {
+      count,
+      dueAt: earliest(held.map(row => row.deliver_after)),
+      oldestHeldAt: earliest(held.map(row => row.created_at))
+    });
+
+    if (!decision.send) {
+      await this.holdNewListings(userId, prefs, unmuted, held, decision, count, ctx);
+      return;
+    }
+
+    let toSend = sections;
+    if (!ctx.dryRun && held.length > 0) {
+      // Only send what this process claimed - another may have sent the rest
+      let claimed: DbPendingNotification[] = [];
+      try {
+        claimed = await this.pending.claim(held.map(row => row.id!));
+      } catch (error) {
+        console.warn(`  ⚠️ Could not claim held notifications for user ${userId}:`, error instanceof Error ? error.message : error);
+      }
+      toSend = mergeSections([...claimed.map(heldSection), ...unmuted]).filter(section => !isMuted(section));
+      if (toSend.length === 0) return;
+    }
+
+    if (held.length > 0) {
+      console.log(`  📬 Including ${countListings(toSend) - countListings(unmuted)} held listings for user ${userId}`);
+    }
+    if (prefs.channels.push) await this.sendNewListingsPush(userId, toSend, ctx);
+    if (prefs.channels.email) await this.sendDigestEmail(userId, toSend, ctx);
+    if (prefs.channels.telegram) await this.sendTelegramListings(userId, toSend, ctx);
+  }
+
+  private async holdNewListings(
+    userId: string,
+    prefs: NotificationPreferences,
+    fresh: NewListingsSection[],
+    held: DbPendingNotification[],
+    decision: Extract<DeliveryDecision, { send: false }>,
+    count: number,
+    ctx: RunContext
+  ): Promise<void> {
+    const heldUntil = decision.until?.toISOString() ?? null;
+    const reason = decision.reason === 'quiet_hours' ? 'quiet hours'
+      : decision.reason === 'digest' ? 'daily digest'
+      : `batches of ${prefs.minBatchSize}`;
+    const channels = (['push', 'email', 'telegram'] as const).filter(channel => prefs.channels[channel]);
+    for (const channel of channels) {
+      ctx.notifications.push({ userId, channel, title: 'New listings', body: `${count} listings`, status: 'held', heldUntil });
+    }
+
+    const when = heldUntil ? `until ${heldUntil}` : 'for more listings';
+    if (ctx.dryRun) {
+      console.log(`  🔕 Would hold ${count} listings for user ${userId} ${when} (${reason})`);
+      return;
+    }
+
+    try {
+      await this.pending.insert(fresh.map(section => ({
+        user_id: userId,
+        kind: 'new_listings',
+        query_id: section.queryId,
+        query_name: section.queryName,
+        listings: section.listings,
+        deliver_after: heldUntil
+      })));
+      if (held.length > 0) {
+        await this.pending.reschedule(userId, 'new_listings', decision.until);
+      }
+      console.log(`  🌙 Holding ${count} listings for user ${userId} ${when} (${reason})`);
+    } catch (error) {
+      console.error(`  ❌ Could not hold notifications for user ${userId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async discardHeld(held: DbPendingNotification[]): Promise<void> {
+    if (held.length === 0) return;
+    try {
+      await this.pending.claim(held.map(row => row.id!));
+    } catch (error) {
+      console.warn('  ⚠️ Could not discard held notifications:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // True if the user's preferences keep a price drop or status alert from going out
+  // now: push is off (dropped), or it's quiet hours (held until they end)
+  private async deferAlert(userId: string, payload: NotificationPayload, ctx: RunContext): Promise<boolean> {
+    const prefs = await this.preferencesFor(userId);
+    if (!prefs.channels.push) {
+      console.log(`  🔕 User ${userId} has turned off push - skipping "${payload.title}"`);
+      return true;
+    }
+
+    const until = quietHoursEnd(prefs);
+    if (!until) return false;
+
+    try {
+      await this.pending.insert([{ user_id: userId, kind: 'alert', payload, deliver_after: until.toISOString() }]);
+    } catch (error) {
+      console.warn(`  ⚠️ Could not hold alert for user ${userId}, sending now:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+
+    console.log(`  🌙 Holding "${payload.title}" for user ${userId} until ${until.toISOString()} (quiet hours)`);
+    ctx.notifications.push({ userId, channel: 'push', title: payload.title, body: payload.body, status: 'held', heldUntil: until.toISOString() });
+    return true;
+  }
+
+  // Send held notifications that have come due - quiet hours over, digest time reached,
+  // or held too long waiting for a batch. Each user under their lease, like a user run.
+  private async deliverHeldNotifications(ctx: RunContext): Promise<void> {
+    if (!this.canNotify) return;
+
+    let userIds: string[];
+    try {
+      const now = new Date();
+      userIds = await this.pending.findDueUserIds(now, new Date(now.getTime() - config.notificationMaxHold));
+    } catch (error) {
+      console.warn('⚠️ Could not check held notifications:', error instanceof Error ? error.message : error);
+      return;
+    }
+    if (userIds.length === 0) return;
+
+    console.log(`\n📬 Delivering held notifications for ${userIds.length} users`);
+    await mapPool(userIds, config.monitorUserConcurrency, async (userId) => {
+      // Busy users are left for the next run
+      const lease = await this.acquireLease(userLockKey(userId), 0);
+      if (!lease) return;
+
+      try {
+        const prefs = await this.preferencesFor(userId);
+        const held = await this.pending.findByUserId(userId);
+
+        const listings = held.filter(row => row.kind === 'new_listings');
+        if (listings.length > 0) {
+          await this.notifyNewListings(userId, prefs, [], listings, ctx);
+        }
+
+        const alerts = held.filter(row => row.kind === 'alert');
+        if (alerts.length > 0) {
+          await this.sendHeldAlerts(userId, prefs, alerts, ctx);
+        }
+      } catch (error) {
+        console.error(`  ❌ Error delivering held notifications to user ${userId}:`, error instanceof Error ? error.message : error);
+      } finally {
+        await lease.release();
+      }
+    });
+  }
+
+  private async sendHeldAlerts(userId: string, prefs: NotificationPreferences, alerts: DbPendingNotification[], ctx: RunContext): Promise<void> {
+    // Leave them for a run that can send them
+    if (!this.notificationService) return;
+
+    const until = quietHoursEnd(prefs);
+    if (until) {
+      await this.pending.reschedule(userId, 'alert', until);
+      return;
+    }
+
+    const now = Date.now();
+    const due = alerts.filter(row => !row.deliver_after || Date.parse(row.deliver_after) <= now);
+    const claimed = await this.pending.claim(due.map(row => row.id!));
+    if (!prefs.channels.push) return;
+
+    for (const row of claimed) {
+      if (!row.payload) continue;
+      const report: NotificationReport = { userId, channel: 'push', title: row.payload.title, body: row.payload.body, status: 'failed' };
+      ctx.notifications.push(report);
+
+      try {
+        const result = await this.notificationService.sendNotificationToUser(userId, row.payload);
+        report.status = result.success ? 'sent' : 'failed';
+        if (!result.success) {
+          console.warn(`  ⚠️ Held alert failed for user ${userId}:`, result.errors);
+        }
+      } catch (error) {
+        console.error(`  ❌ Error sending held alert to user ${userId}:`, error);
+      }
+    }
+  }
+
+  // Push a count of the new listings across the user's queries
+  private async sendNewListingsPush(userId: string, sections: NewListingsSection[], ctx: RunContext): Promise<void> {
+    const count = countListings(sections);
+    // Include query name for single query notifications
+    const queryName = sections.length === 1 ? sections[0].queryName : undefined;
+    const payload = propertyNotificationPayload(count, sections.length, queryName);
+    const report: NotificationReport = { userId, channel: 'push', title: payload.title, body: payload.body, status: 'not_sent' };
+    ctx.notifications.push(report);
+
+    if (ctx.dryRun || !this.notificationService) {
+      console.log(`  🔕 Would notify user ${userId}: "${payload.title}" - ${payload.body}`);
+      return;
+    }
+
+    console.log(`  🔔 Sending notification to user ${userId}: ${count} new properties across ${sections.length} queries`);
+
+    try {
+      const notificationResult = await this.notificationService.sendPropertyNotification(
+        userId,
+        count,
+        sections.length,
+        queryName
+      );
+
+      report.status = notificationResult.success ? 'sent' : 'failed';
+      if (notificationResult.success) {
+        console.log(`  ✅ Notification sent successfully to user ${userId}`);
+      } else {
+        console.warn(`  ⚠️ Notification failed for user ${userId}:`, notificationResult.errors);
+      }
+    } catch (error) {
+      report.status = 'failed';
+      console.error(`  ❌ Error sending notification to user ${userId}:`, error);
+    }
+  }
+
+  // Email the new listings, per query, to a user who has turned digests on
+  private async sendDigestEmail(userId: string, digest: NewListingsSection[], ctx: RunContext): Promise<void> {
+    if (digest.length === 0) return;
+
+    const count = digest.reduce((sum, section) => sum + section.listings.length, 0);
+    const report: NotificationReport = {
+      userId,
+      channel: 'email',
+      title: 'New listings digest',
+      body: `${count} listings across ${digest.length} searches`,
+      status: 'not_sent'
+    };
+
+    if (ctx.dryRun || !this.emailDigest) {
+      if (ctx.dryRun) {
+        console.log(`  🔕 Would email a digest of ${count} listings to user ${userId} (if subscribed)`);
+        ctx.notifications.push(report);
+      }
+      return;
+    }
+
+    try {
+      if (await this.emailDigest.sendNewListingsDigest(userId, digest)) {
+        report.status = 'sent';
+        ctx.notifications.push(report);
+        console.log(`  📧 Emailed digest of ${count} listings to user ${userId}`);
+      }
+    } catch (error) {
+      report.status = 'failed';
+      ctx.notifications.push(report);
+      console.error(`  ❌ Error emailing digest to user ${userId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Send each new listing, with Save/Pass buttons, to a user who has linked Telegram
+  private async sendTelegramListings(userId: string, newListings: NewListingsSection[], ctx: RunContext): Promise<void> {
+    if (newListings.length === 0) return;
+
+    const count = newListings.reduce((sum, section) => sum + section.listings.length, 0);
+    const report: NotificationReport = {
+      userId,
+      channel: 'telegram',
+      title: 'New listings',
+      body: `${count} listings across ${newListings.length} searches`,
+      status: 'not_sent'
+    };
+
+    if (ctx.dryRun || !this.telegram) {
+      if (ctx.dryRun) {
+        console.log(`  🔕 Would send ${count} listings to user ${userId} on Telegram (if linked)`);
+        ctx.notifications.push(report);
+      }
+      return;
+    }
+
+    try {
+      const sent = await this.telegram.sendNewListings(userId, newListings);
+      if (sent > 0) {
+        report.status = 'sent';
+        ctx.notifications.push(report);
+        console.log(`  ✈️ Sent ${sent} of ${count} listings to user ${userId} on Telegram`);
+      }
+    } catch (error) {
+      report.status = 'failed';
+      ctx.notifications.push(report);
+      console.error(`  ❌ Error sending listings to user ${userId} on Telegram:`, error instanceof Error ? error.message : error);
     }
   }
 
-  private async processQuery(query: DbQuery): Promise<{ newCount: number; errors: string[] }> {
+  private async processQuery(query: DbQuery, ctx: RunContext, signal?: AbortSignal): Promise<QueryRunStats> {
+    // Queries run side by side, so tag their log lines
+    const tag = `[${query.name}]`;
+    const stats: QueryRunStats = {
+      newCount: 0,
+      errors: [],
+      failed: false,
+      pagesFetched: 0,
+      returned: 0,
+      outsideArea: 0,
+      newFound: 0,
+      linked: [],
+      excluded: [],
+      quality: null
+    };
+
     try {
-      // Search using API with coordinates
-      const results = await this.api.searchProperties({
-        latitude: query.latitude,
-        longitude: query.longitude,
-        minPrice: query.min_price,
-        maxPrice: query.max_price,
-        minBedrooms: query.min_bedrooms,
-        maxBedrooms: query.max_bedrooms,
-        minBathrooms: query.min_bathrooms,
-        maxBathrooms: query.max_bathrooms,
-        radius: query.radius,
-        furnishType: query.furnish_type as 'furnished' | 'unfurnished' | undefined,
-        page: 1,
-        pageSize: 25
+      // Search using API with coordinates, paging until we reach listings this query already has.
+      // Only the page requests take a search slot - the lookups and price writes take db slots
+      const area = query.area_polygon;
+      const pages = ctx.api.searchAllPages(queryToSearchParams(query), {
+        maxPages: ctx.maxPages,
+        signal,
+        inArea: area ? (property) => pointInArea(property.latitude, property.longitude, area) : undefined,
+        filterNew: (properties) => this.stages.db.run(() => this.supabase.getNewPropertiesForQuery(query, properties)),
+        fetchPage: (request) => this.stages.search.run(request)
       });
 
-      console.log(`    📊 API returned ${results.properties.length} properties (total: ${results.total})`);
+      const newPropertiesForQuery: PropertyListItem[] = [];
+      let seenCount = 0;
+
+      for await (const page of pages) {
+        console.log(`    ${tag} 📊 Page ${page.page}: API returned ${page.properties.length} properties (total: ${page.total})`);
+        if (page.outsideArea > 0) {
+          console.log(`    ${tag} 🗺️ ${page.outsideArea} outside the drawn area`);
+        }
+        const candidates = page.properties.length - page.outsideArea;
+        console.log(`    ${tag} 🔍 ${page.newProperties.length} are new (${candidates - page.newProperties.length} already seen)`);
+        newPropertiesForQuery.push(...page.newProperties);
+        seenCount += candidates;
+
+        stats.pagesFetched++;
+        stats.returned += page.properties.length;
+        stats.outsideArea += page.outsideArea;
 
-      // Filter for properties that are NEW for this specific query
-      const newPropertiesForQuery = await this.supabase.getNewPropertiesForQuery(query, results.properties);
-      console.log(`    🔍 ${newPropertiesForQuery.length} are new (${results.properties.length - newPropertiesForQuery.length} already seen)`);
+        if (!ctx.dryRun) {
+          await this.trackPrices(page.properties, query.channel || 'RENT', tag);
+        }
+      }
+
+      console.log(`    ${tag} 🔍 ${newPropertiesForQuery.length} new across all pages (${seenCount - newPropertiesForQuery.length} already seen)`);
+      stats.newFound = newPropertiesForQuery.length;
 
       if (newPropertiesForQuery.length === 0) {
         console.log(`    📭 No new properties to process for query: ${query.name}`);
-        return { newCount: 0, errors: [] };
+        return stats;
       }
 
       // Take top N new properties (e.g., top 7)
       const topNewProperties = newPropertiesForQuery.slice(0, config.maxHDPropertiesPerQuery);
-      console.log(`    🎯 Processing top ${topNewProperties.length} new properties`);
+      console.log(`    ${tag} 🎯 Processing top ${topNewProperties.length} new properties`);
 
       // Log data quality metrics for the properties we're about to process
-      this.logDataQuality(topNewProperties, query.name);
+      stats.quality = this.logDataQuality(topNewProperties, query.name);
+
+      // Fetch HD images for each property, dropping any that fail the query's keyword/must-have filters
+      console.log(`    ${tag} 📸 Fetching HD images for ${topNewProperties.length} properties...`);
+      const filters = listingFiltersFor(query);
+      const { properties: propertiesWithDetails, excluded } = await this.fetchPropertyDetails(ctx.api, topNewProperties, filters, signal);
+      stats.excluded = excluded;
 
-      // Fetch HD images for each property
-      console.log(`    📸 Fetching HD images for ${topNewProperties.length} properties...`);
-      const propertiesWithDetails = await this.fetchPropertyDetails(topNewProperties);
+      const channel = query.channel || 'RENT';
+      const toReport = (property: PropertyWithDetails): ListingReport => ({
+        rightmoveId: property.identifier,
+        address: property.address,
+        price: displayPriceFor(property, channel),
+        bedrooms: property.bedrooms || 0,
+        image: property.hdImages?.[0] || property.thumbnailPhotos?.[0]?.url || null,
+        url: `https://www.rightmove.co.uk/properties/${property.identifier}`
+      });
+
+      if (ctx.dryRun) {
+        if (excluded.length > 0) {
+          console.log(`    ${tag} 🚫 ${excluded.length} properties didn't match the query's filters`);
+        }
+        for (const property of propertiesWithDetails) {
+          console.log(`    ${tag} 🧪 Would link ${property.identifier} (${property.address})`);
+        }
+        stats.linked = propertiesWithDetails.map(toReport);
+        stats.newCount = propertiesWithDetails.length;
+        return stats;
+      }
 
       // Process properties for this specific query
-      const processResult = await this.supabase.processPropertiesWithDetails(query, propertiesWithDetails);
+      const processResult = await this.stages.db.run(async () => {
+        if (excluded.length > 0) {
+          console.log(`    ${tag} 🚫 ${excluded.length} properties didn't match the query's filters`);
+          await this.supabase.recordExcludedListings(query.id!, excluded);
+        }
+        return this.supabase.processPropertiesWithDetails(query, propertiesWithDetails);
+      });
+
+      const linkedIds = new Set(processResult.linkedIds);
+      stats.linked = propertiesWithDetails.filter(p => linkedIds.has(p.identifier)).map(toReport);
+      stats.newCount = processResult.newCount;
+      stats.errors = processResult.errors;
+      return stats;
+
+    } catch (error) {
+      if (error instanceof RightmoveAbortError && signal?.aborted) {
+        console.error(`    ⏱️ Gave up on query ${query.name}: user exceeded ${config.monitorUserTimeout / 1000}s`);
+      } else if (error instanceof RightmoveRateLimitError) {
+        console.error(`    🚦 Rate limited by Rightmove while processing query ${query.name} (gave up after retries)`);
+      } else if (error instanceof RightmoveError) {
+        console.error(`    ❌ Rightmove ${error.name} processing query ${query.name}: ${error.message}`);
+      } else {
+        console.error(`    ❌ Error processing query ${query.name}:`, error);
+      }
+      stats.failed = true;
+      stats.errors.push(error instanceof Error ? `${error.name}: ${error.message}` : 'Unknown error');
+      return stats;
+    }
+  }
+
+  // Record price changes on listings we already hold - failures are logged, never fatal
+  private async trackPrices(listings: PropertyListItem[], channel: SearchChannel, tag: string): Promise<void> {
+    try {
+      const changes = await this.stages.db.run(() => this.prices.recordPrices(listings, channel));
+      for (const change of changes) {
+        const icon = change.newAmount < change.oldAmount ? '📉' : '📈';
+        console.log(`    ${tag} ${icon} ${change.rightmoveId}: ${change.oldPrice} → ${change.newPrice}`);
+      }
+    } catch (error) {
+      console.warn(`    ${tag} ⚠️ Could not record prices:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Push pending price drops to users who saved or were matched to those properties
+  private async sendPriceDropAlerts(ctx: RunContext): Promise<void> {
+    if (!this.notificationService) {
+      // Leave them pending for a run that can send them
+      console.log('🔕 Notifications off - leaving price drops for the next run');
+      return;
+    }
+
+    try {
+      const alerts = await this.prices.claimPriceDropAlerts();
+      if (alerts.length === 0) return;
+
+      console.log(`\n📉 Sending price drop alerts to ${alerts.length} users`);
+      for (const alert of alerts) {
+        const payload = priceDropNotificationPayload(alert.drops);
+        if (await this.deferAlert(alert.userId, payload, ctx)) continue;
+
+        const report: NotificationReport = { userId: alert.userId, channel: 'push', title: payload.title, body: payload.body, status: 'failed' };
+        ctx.notifications.push(report);
+
+        try {
+          const result = await this.notificationService.sendPriceDropNotification(alert.userId, alert.drops);
+          report.status = result.success ? 'sent' : 'failed';
+          if (!result.success) {
+            console.warn(`  ⚠️ Price drop alert failed for user ${alert.userId}:`, result.errors);
+          }
+        } catch (error) {
+          console.error(`  ❌ Error sending price drop alert to user ${alert.userId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not send price drop alerts:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Re-fetch a batch of saved/grouped properties to spot let agreed, removed and relisted listings
+  private async recheckListingStatuses(ctx: RunContext): Promise<void> {
+    try {
+      const result = await ctx.statuses.recheckFollowed({
+        staleBefore: new Date(Date.now() - config.listingStatusCheckInterval),
+        limit: config.listingStatusBatchSize,
+        concurrency: config.monitorDetailsConcurrency,
+        signal: AbortSignal.timeout(config.monitorUserTimeout)
+      });
+      if (result.checked === 0) return;
+
+      console.log(`\n🏷️ Re-checked ${result.checked} saved properties: ${result.changes.length} changed status${result.failed > 0 ? `, ${result.failed} failed` : ''}`);
+      for (const change of result.changes) {
+        console.log(`  🏷️ ${change.rightmoveId} (${change.address}): ${change.from} → ${change.to}`);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not re-check listing statuses:', error instanceof Error ? error.message : error);
+    }
+  }
 
-      return {
-        newCount: processResult.newCount,
-        errors: processResult.errors
-      };
+  // Push status changes to users who saved or grouped those properties
+  private async sendStatusAlerts(ctx: RunContext): Promise<void> {
+    if (!this.notificationService) {
+      console.log('🔕 Notifications off - leaving status changes for the next run');
+      return;
+    }
+
+    try {
+      const alerts = await ctx.statuses.claimStatusAlerts();
+      if (alerts.length === 0) return;
+
+      console.log(`\n🏷️ Sending status change alerts to ${alerts.length} users`);
+      for (const alert of alerts) {
+        const payload = statusChangeNotificationPayload(alert.changes);
+        if (await this.deferAlert(alert.userId, payload, ctx)) continue;
+
+        const report: NotificationReport = { userId: alert.userId, channel: 'push', title: payload.title, body: payload.body, status: 'failed' };
+        ctx.notifications.push(report);
 
+        try {
+          const result = await this.notificationService.sendStatusChangeNotification(alert.userId, alert.changes);
+          report.status = result.success ? 'sent' : 'failed';
+          if (!result.success) {
+            console.warn(`  ⚠️ Status change alert failed for user ${alert.userId}:`, result.errors);
+          }
+        } catch (error) {
+          console.error(`  ❌ Error sending status change alert to user ${alert.userId}:`, error);
+        }
+      }
     } catch (error) {
-      console.error(`    ❌ Error processing query ${query.name}:`, error);
-      return {
-        newCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error']
-      };
+      console.warn('⚠️ Could not send status change alerts:', error instanceof Error ? error.message : error);
     }
   }
 
-  // Fetch property details to get HD images
-  private async fetchPropertyDetails(properties: PropertyListItem[]): Promise<PropertyWithDetails[]> {
-    const results: PropertyWithDetails[] = [];
+  // Fetch property details to get HD images, and check them against the query's post-search filters.
+  // Requests go out in parallel, bounded by the details stage limit; results keep search order.
+  private async fetchPropertyDetails(
+    api: RightmoveAPI,
+    properties: PropertyListItem[],
+    filters: ListingFilters | null = null,
+    signal?: AbortSignal
+  ): Promise<{ properties: PropertyWithDetails[]; excluded: { rightmoveId: number; reason: string }[] }> {
+    const excluded: { rightmoveId: number; reason: string }[] = [];
 
-    for (const property of properties) {
+    const results = await Promise.all(properties.map(async (property): Promise<PropertyWithDetails | null> => {
       try {
-        const details = await this.api.getPropertyDetails(property.identifier);
+        const details = await this.stages.details.run(() =>
+          api.getPropertyDetails(property.identifier, { signal })
+        );
         const p = details.property;
 
+        if (filters) {
+          const match = matchListingFilters(p, filters);
+          if (!match.matches) {
+            console.log(`      🚫 ${property.identifier}: ${match.reason}`);
+            excluded.push({ rightmoveId: property.identifier, reason: match.reason! });
+            return null;
+          }
+        }
+
         // Extract HD images from details
         const hdImages = p.photos?.map((photo) => photo.maxSizeUrl) || [];
         const bathrooms = parseInt(p.analyticsInfo?.bathrooms || '0', 10);
 
         console.log(`      📷 ${property.identifier}: ${hdImages.length} HD images, ${bathrooms} bathrooms`);
 
-        results.push({
+        return {
           ...property,
           hdImages,
-          bathrooms
-        });
+          bathrooms,
+          letBond: p.letBond ?? null
+        };
       } catch (error) {
-        console.warn(`      ⚠️ Failed to fetch details for ${property.identifier}, using thumbnails`);
+        if (error instanceof RightmoveAbortError) {
+          // Out of time - let processQuery report it
+          throw error;
+        }
+        if (error instanceof RightmoveNotFoundError) {
+          // Listing was removed between search and details - don't save it
+          console.warn(`      🗑️ ${property.identifier} no longer exists on Rightmove, skipping`);
+          return null;
+        }
+        if (filters) {
+          // Can't check keywords/must-haves without details - leave it for the next run
+          console.warn(`      ⚠️ Failed to fetch details for ${property.identifier} (${error instanceof Error ? error.name : 'Unknown error'}), can't apply filters, skipping`);
+          return null;
+        }
+        console.warn(`      ⚠️ Failed to fetch details for ${property.identifier} (${error instanceof Error ? error.name : 'Unknown error'}), using thumbnails`);
         // Fall back to thumbnail images
-        results.push(property);
+        return property;
       }
-    }
+    }));
 
-    return results;
+    return {
+      properties: results.filter((p): p is PropertyWithDetails => p !== null),
+      excluded
+    };
   }
 
   // Cleanup method to properly close connections
@@ -279,21 +1329,105 @@ class PropertyMonitor {
   }
 }
 
+const USAGE = `Usage: npm run monitor -- [options] [userId]
+
+Options:
+  --user <id>        Only this user's queries (same as the positional userId)
+  --query <id>       Only this saved query
+  --dry-run          Search and report which listings would be linked and which
+                     notifications sent, without writing to the database or calling APNs
+  --no-notify        Save as normal but don't send push, email or Telegram notifications
+  --max-pages <n>    Search result pages per query (default ${config.maxPagesToScrape})
+  --json             Print the run summary as JSON on stdout (logs go to stderr)
+  -h, --help         Show this help`;
+
+interface CliOptions {
+  userId?: string;
+  run: MonitorRunOptions;
+  notify: boolean;
+  json: boolean;
+}
+
+// Parse monitor.ts arguments - null for --help; throws with a message for bad input
+function parseCliArgs(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      user: { type: 'string' },
+      query: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'no-notify': { type: 'boolean', default: false },
+      'max-pages': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) return null;
+
+  if (positionals.length > 1) {
+    throw new Error(`Unexpected arguments: ${positionals.slice(1).join(' ')}`);
+  }
+  if (values.user && positionals[0] && values.user !== positionals[0]) {
+    throw new Error('Pass the user id once, either positionally or with --user');
+  }
+
+  let maxPages: number | undefined;
+  if (values['max-pages'] !== undefined) {
+    maxPages = Number(values['max-pages']);
+    if (!Number.isInteger(maxPages) || maxPages < 1) {
+      throw new Error(`--max-pages must be a positive whole number, got "${values['max-pages']}"`);
+    }
+  }
+
+  const dryRun = values['dry-run'] ?? false;
+
+  return {
+    userId: values.user ?? positionals[0],
+    run: { queryId: values.query, dryRun, maxPages },
+    notify: !dryRun && !values['no-notify'],
+    json: values.json ?? false
+  };
+}
+
 // Main execution
 async function main() {
-  // Check if user ID was passed as command-line argument
-  const targetUserId = process.argv[2];
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Keep stdout for the JSON summary
+  if (options.json) {
+    console.log = console.error;
+    console.info = console.error;
+  }
 
-  if (targetUserId) {
-    console.log(`Processing queries for user: ${targetUserId}`);
+  if (options.userId) {
+    console.log(`Processing queries for user: ${options.userId}`);
   } else {
     console.log('Processing all user queries from Supabase database...');
   }
 
-  const monitor = new PropertyMonitor();
+  const monitor = new PropertyMonitor({ notify: options.notify });
+  let exitCode = 0;
 
   try {
-    await monitor.run(targetUserId);
+    const summary = await monitor.run(options.userId, options.run);
+    if (summary.status === 'failed') exitCode = 1;
+
+    if (options.json) {
+      process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+    }
   } finally {
     // Always cleanup
     if (monitor.cleanup) {
@@ -303,8 +1437,8 @@ async function main() {
 
     // Force exit after a short delay to ensure all logs are flushed
     setTimeout(() => {
-      console.log('✅ Monitor workflow completed successfully');
-      process.exit(0);
+      console.log(exitCode === 0 ? '✅ Monitor workflow completed successfully' : '❌ Monitor run failed');
+      process.exit(exitCode);
     }, 1000);
   }
 }
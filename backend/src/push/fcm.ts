@@ -0,0 +1,188 @@
+/**
+ * FCM Transport
+ * Android delivery via the Firebase Cloud Messaging HTTP v1 API, authenticated
+ * with a service account (OAuth2 JWT bearer grant). One request per token -
+ * v1 has no multicast endpoint.
+ */
+
+import jwt from 'jsonwebtoken';
+import { DbDeviceToken } from '../types/database';
+import { mapPool } from '../utils/concurrency';
+import { NotificationPayload, PushResult, PushTransport } from './transport';
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+const SEND_CONCURRENCY = 5;
+// Per request, so a stalled endpoint can't hold up the monitor
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// FCM error codes meaning the token will never work again
+const INVALID_TOKEN_CODES = ['UNREGISTERED', 'SENDER_ID_MISMATCH'];
+
+/** Error body from the v1 API (google.rpc.Status) */
+interface FcmErrorResponse {
+  error?: {
+    code?: number;
+    status?: string;
+    message?: string;
+    details?: { '@type'?: string; errorCode?: string }[];
+  };
+}
+
+interface FcmCredentials {
+  projectId: string;
+  clientEmail: string;
+  privateKey: string;
+}
+
+export class FcmTransport implements PushTransport {
+  readonly name = 'fcm';
+  private credentials: FcmCredentials;
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(credentials: FcmCredentials | null = FcmTransport.credentialsFromEnv()) {
+    if (!credentials) {
+      throw new Error('FCM configuration incomplete. Set FCM_PROJECT_ID, FCM_CLIENT_EMAIL and FCM_PRIVATE_KEY from the Firebase service account.');
+    }
+    this.credentials = credentials;
+    console.log(`🤖 FCM transport initialized for project ${credentials.projectId}`);
+  }
+
+  static credentialsFromEnv(): FcmCredentials | null {
+    const { FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY } = process.env;
+    if (!FCM_PROJECT_ID || !FCM_CLIENT_EMAIL || !FCM_PRIVATE_KEY) return null;
+
+    // Same escaping as APN_AUTH_KEY: quoted and/or with literal \n
+    let privateKey = FCM_PRIVATE_KEY;
+    if (privateKey.startsWith('"') && privateKey.endsWith('"')) {
+      privateKey = privateKey.slice(1, -1);
+    }
+
+    return {
+      projectId: FCM_PROJECT_ID,
+      clientEmail: FCM_CLIENT_EMAIL,
+      privateKey: privateKey.replace(/\\n/g, '\n').trim()
+    };
+  }
+
+  async send(devices: DbDeviceToken[], payload: NotificationPayload): Promise<PushResult> {
+    const result: PushResult = { sent: [], failed: [], invalid: [] };
+
+    let accessToken: string;
+    try {
+      accessToken = await this.getAccessToken();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ FCM authentication failed: ${reason}`);
+      result.failed.push(...devices.map(d => ({ token: d.device_token, reason })));
+      return result;
+    }
+
+    const url = `https://fcm.googleapis.com/v1/projects/${this.credentials.projectId}/messages:send`;
+    const outcomes = await mapPool(devices, SEND_CONCURRENCY, async (device) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ message: this.buildMessage(device.device_token, payload) }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+
+      if (response.ok) return null;
+
+      const body = await response.json().catch(() => null) as FcmErrorResponse | null;
+      const code = body?.error?.details?.find(detail => detail.errorCode)?.errorCode;
+      return { status: response.status, code: code || body?.error?.status || `HTTP ${response.status}` };
+    });
+
+    devices.forEach((device, index) => {
+      const outcome = outcomes[index];
+      if (outcome.status === 'rejected') {
+        const reason = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+        result.failed.push({ token: device.device_token, reason });
+        return;
+      }
+
+      if (outcome.value === null) {
+        result.sent.push(device.device_token);
+        return;
+      }
+
+      const { status, code } = outcome.value;
+      result.failed.push({ token: device.device_token, reason: code });
+      console.error(`❌ FCM failure for ${device.device_token.substring(0, 20)}...: ${code}`);
+      if (status === 404 || INVALID_TOKEN_CODES.includes(code)) {
+        result.invalid.push(device.device_token);
+      }
+    });
+
+    console.log(`📊 FCM delivery summary: ${result.sent.length}/${devices.length} delivered successfully`);
+    return result;
+  }
+
+  private buildMessage(token: string, payload: NotificationPayload) {
+    // FCM data values must be strings
+    const data = Object.fromEntries(
+      Object.entries(payload.data || {})
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+    );
+
+    return {
+      token,
+      notification: { title: payload.title, body: payload.body },
+      data,
+      android: {
+        priority: 'high',
+        notification: {
+          sound: 'default',
+          ...(payload.badge ? { notification_count: payload.badge } : {})
+        }
+      }
+    };
+  }
+
+  /**
+   * OAuth2 access token for the service account, reused until a minute before expiry
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const assertion = jwt.sign(
+      { scope: SCOPE },
+      this.credentials.privateKey,
+      {
+        algorithm: 'RS256',
+        issuer: this.credentials.clientEmail,
+        audience: TOKEN_URL,
+        expiresIn: 3600
+      }
+    );
+
+    const response = await fetch(TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token exchange failed with HTTP ${response.status}`);
+    }
+
+    const body = await response.json() as { access_token: string; expires_in: number };
+    this.accessToken = { value: body.access_token, expiresAt: Date.now() + body.expires_in * 1000 };
+    return body.access_token;
+  }
+
+  async shutdown(): Promise<void> {
+    this.accessToken = null;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Push Exports
+ */
+
+import config from '../config';
+import { ApnsTransport } from './apns';
+import { FcmTransport } from './fcm';
+import { LocalPushTransport } from './local';
+import { PushTransports } from './transport';
+
+export { ApnsTransport } from './apns';
+export { FcmTransport } from './fcm';
+export { LocalPushTransport } from './local';
+export type { LocalDelivery } from './local';
+export type { NotificationPayload, PushResult, PushTransport, PushTransports } from './transport';
+
+/**
+ * Transports per platform from config: the local transport for every platform,
+ * or APNs (required) plus FCM when its service account is configured
+ */
+export function createPushTransports(): PushTransports {
+  if (config.pushTransport === 'local') {
+    const local = new LocalPushTransport(config.pushLocalFile);
+    return { ios: local, android: local };
+  }
+
+  const transports: PushTransports = { ios: new ApnsTransport() };
+  if (FcmTransport.credentialsFromEnv()) {
+    transports.android = new FcmTransport();
+  } else {
+    console.warn('⚠️ FCM not configured - Android devices will not receive pushes');
+  }
+  return transports;
+}
@@ -0,0 +1,63 @@
+/**
+ * Local Transport
+ * Records pushes instead of sending them - in memory, and optionally appended
+ * to a JSON-lines file - for tests and local runs against the fake Rightmove
+ * server. Tokens starting with "invalid" are reported as unregistered so
+ * token cleanup can be exercised too.
+ */
+
+import { appendFile } from 'fs/promises';
+import { DbDeviceToken, DevicePlatform } from '../types/database';
+import { NotificationPayload, PushResult, PushTransport } from './transport';
+
+export interface LocalDelivery {
+  sentAt: string;
+  userId: string;
+  platform: DevicePlatform;
+  token: string;
+  payload: NotificationPayload;
+}
+
+export class LocalPushTransport implements PushTransport {
+  readonly name = 'local';
+  readonly deliveries: LocalDelivery[] = [];
+
+  constructor(private filePath?: string) {}
+
+  async send(devices: DbDeviceToken[], payload: NotificationPayload): Promise<PushResult> {
+    const result: PushResult = { sent: [], failed: [], invalid: [] };
+    const sentAt = new Date().toISOString();
+    const delivered: LocalDelivery[] = [];
+
+    for (const device of devices) {
+      if (device.device_token.startsWith('invalid')) {
+        result.failed.push({ token: device.device_token, reason: 'Unregistered' });
+        result.invalid.push(device.device_token);
+        continue;
+      }
+
+      delivered.push({
+        sentAt,
+        userId: device.user_id,
+        platform: device.device_type,
+        token: device.device_token,
+        payload
+      });
+      result.sent.push(device.device_token);
+    }
+
+    this.deliveries.push(...delivered);
+    if (this.filePath && delivered.length > 0) {
+      await appendFile(this.filePath, delivered.map(d => JSON.stringify(d)).join('\n') + '\n');
+    }
+
+    console.log(`📝 Recorded push "${payload.title}" for ${delivered.length} device(s)${this.filePath ? ` in ${this.filePath}` : ''}`);
+    return result;
+  }
+
+  clear(): void {
+    this.deliveries.length = 0;
+  }
+
+  async shutdown(): Promise<void> {}
+}
@@ -0,0 +1,34 @@
+/**
+ * Push Transport
+ * The delivery layer under PushNotificationService, one per device platform:
+ * APNs for iOS, FCM for Android, or a local transport that records pushes
+ * instead of sending them.
+ */
+
+import { DbDeviceToken, DevicePlatform, PushEnvironment } from '../types/database';
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  badge?: number;
+  data?: Record<string, any>;
+}
+
+export interface PushResult {
+  /** Tokens the provider accepted the push for */
+  sent: string[];
+  failed: { token: string; reason: string }[];
+  /** Tokens the provider says are dead - the caller removes them */
+  invalid: string[];
+  /** Environments learned for tokens registered without one (APNs) */
+  environments?: { token: string; environment: PushEnvironment }[];
+}
+
+export interface PushTransport {
+  readonly name: string;
+  /** Deliver one payload to devices of this transport's platform. Should not throw per token. */
+  send(devices: DbDeviceToken[], payload: NotificationPayload): Promise<PushResult>;
+  shutdown(): Promise<void>;
+}
+
+export type PushTransports = Partial<Record<DevicePlatform, PushTransport>>;
@@ -1,25 +1,36 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../db';
+import { DbDeviceToken } from '../types/database';
 import { databaseError } from '../utils/errors';
 
 export class DeviceTokenRepository {
   constructor(private client: SupabaseClient = supabase) {}
 
-  async upsert(userId: string, token: string, platform: string): Promise<void> {
+  /**
+   * Register or refresh a device. Keyed on the token, so a device that signs in
+   * to another account moves to that user.
+   */
+  async upsert(token: DbDeviceToken): Promise<void> {
     const { error } = await this.client
       .from('device_tokens')
       .upsert(
-        {
-          user_id: userId,
-          device_token: token,
-          platform,
-        },
-        { onConflict: 'user_id' }
+        { ...token, last_seen_at: new Date().toISOString() },
+        { onConflict: 'device_token' }
       );
 
     if (error) throw databaseError(error.message);
   }
 
+  async remove(userId: string, token: string): Promise<void> {
+    const { error } = await this.client
+      .from('device_tokens')
+      .delete()
+      .eq('user_id', userId)
+      .eq('device_token', token);
+
+    if (error) throw databaseError(error.message);
+  }
+
   async removeForUser(userId: string): Promise<void> {
     const { error } = await this.client
       .from('device_tokens')
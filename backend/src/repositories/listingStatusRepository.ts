@@ -0,0 +1,116 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../db';
+import { DbProperty, DbPropertyStatusHistory, ListingStatus } from '../types/database';
+import { databaseError } from '../utils/errors';
+
+export type FollowedProperty = Pick<DbProperty, 'id' | 'rightmove_id' | 'address' | 'listing_status' | 'status_checked_at'>;
+
+export type StatusChangeRow = DbPropertyStatusHistory & { property: { address: string } | null };
+
+export class ListingStatusRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  /**
+   * Saved or grouped properties (the followed_property view) not checked since
+   * staleBefore, least recently checked first
+   */
+  async findDueForCheck(staleBefore: Date, limit: number): Promise<FollowedProperty[]> {
+    const { data, error } = await this.client
+      .from('followed_property')
+      .select('id, rightmove_id, address, listing_status, status_checked_at')
+      .or(`status_checked_at.is.null,status_checked_at.lt.${staleBefore.toISOString()}`)
+      .order('status_checked_at', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) throw databaseError(error.message);
+    return data || [];
+  }
+
+  async markChecked(propertyIds: string[]): Promise<void> {
+    if (propertyIds.length === 0) return;
+
+    const { error } = await this.client
+      .from('property')
+      .update({ status_checked_at: new Date().toISOString() })
+      .in('id', propertyIds);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /**
+   * Move a property from one status to another, only if it still has the old
+   * one - so a change seen by two processes is recorded once
+   */
+  async updateStatus(propertyId: string, from: ListingStatus, to: ListingStatus): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.client
+      .from('property')
+      .update({ listing_status: to, status_changed_at: now, status_checked_at: now })
+      .eq('id', propertyId)
+      .eq('listing_status', from)
+      .select('id');
+
+    if (error) throw databaseError(error.message);
+    return !!data && data.length > 0;
+  }
+
+  async insertHistory(rows: DbPropertyStatusHistory[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.client
+      .from('property_status_history')
+      .insert(rows);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /**
+   * Mark every un-notified change as notified and return them (the update is the claim)
+   */
+  async claimPendingChanges(): Promise<StatusChangeRow[]> {
+    const { data, error } = await this.client
+      .from('property_status_history')
+      .update({ notified_at: new Date().toISOString() })
+      .is('notified_at', null)
+      .select('*, property(address)');
+
+    if (error) throw databaseError(error.message);
+    return (data || []) as StatusChangeRow[];
+  }
+
+  /**
+   * Users who saved these properties or put them in one of their groups
+   */
+  async findFollowers(propertyIds: string[]): Promise<{ user_id: string; property_id: string }[]> {
+    if (propertyIds.length === 0) return [];
+
+    const [saved, grouped] = await Promise.all([
+      this.client
+        .from('user_property_action')
+        .select('user_id, property_id')
+        .eq('action', 'saved')
+        .in('property_id', propertyIds),
+      this.client
+        .from('property_group_member')
+        .select('property_id, property_group!inner(user_id)')
+        .in('property_id', propertyIds),
+    ]);
+
+    if (saved.error) throw databaseError(saved.error.message);
+    if (grouped.error) throw databaseError(grouped.error.message);
+
+    const followers = new Map<string, { user_id: string; property_id: string }>();
+    for (const row of saved.data || []) {
+      followers.set(`${row.user_id}:${row.property_id}`, row);
+    }
+    for (const row of grouped.data || []) {
+      // Embedded many-to-one comes back as an object (typed loosely by the client)
+      const group = row.property_group as unknown as { user_id: string } | null;
+      if (group?.user_id) {
+        followers.set(`${group.user_id}:${row.property_id}`, { user_id: group.user_id, property_id: row.property_id });
+      }
+    }
+
+    return [...followers.values()];
+  }
+}
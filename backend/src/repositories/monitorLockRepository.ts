@@ -0,0 +1,65 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { hostname } from 'os';
+import { supabase } from '../db';
+import { LeaseStore } from '../utils/lease';
+import { databaseError } from '../utils/errors';
+
+/**
+ * Leases stored in the monitor_lock table, one row per key. Expiry uses the
+ * caller's clock, so TTLs should be far larger than any clock skew.
+ */
+export class MonitorLockRepository implements LeaseStore {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async tryAcquire(key: string, holder: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const row = {
+      holder,
+      host: `${hostname()} pid ${process.pid}`,
+      acquired_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+    };
+
+    // Take over an expired lease - the WHERE makes this atomic against other takers
+    const { data, error } = await this.client
+      .from('monitor_lock')
+      .update(row)
+      .eq('key', key)
+      .lt('expires_at', row.acquired_at)
+      .select('key');
+
+    if (error) throw databaseError(error.message);
+    if (data && data.length > 0) return true;
+
+    // No row yet: whoever inserts first wins, the rest hit the primary key
+    const { error: insertError } = await this.client
+      .from('monitor_lock')
+      .insert({ key, ...row });
+
+    if (!insertError) return true;
+    if (insertError.code === '23505') return false;
+    throw databaseError(insertError.message);
+  }
+
+  async renew(key: string, holder: string, ttlMs: number): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('monitor_lock')
+      .update({ expires_at: new Date(Date.now() + ttlMs).toISOString() })
+      .eq('key', key)
+      .eq('holder', holder)
+      .select('key');
+
+    if (error) throw databaseError(error.message);
+    return !!data && data.length > 0;
+  }
+
+  async release(key: string, holder: string): Promise<void> {
+    const { error } = await this.client
+      .from('monitor_lock')
+      .delete()
+      .eq('key', key)
+      .eq('holder', holder);
+
+    if (error) throw databaseError(error.message);
+  }
+}
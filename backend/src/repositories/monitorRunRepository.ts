@@ -0,0 +1,52 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../db';
+import { DbMonitorRun, DbMonitorQueryResult } from '../types/database';
+import { databaseError } from '../utils/errors';
+
+export class MonitorRunRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async startRun(targetUserId?: string): Promise<DbMonitorRun> {
+    const { data, error } = await this.client
+      .from('monitor_run')
+      .insert({
+        started_at: new Date().toISOString(),
+        status: 'running',
+        target_user_id: targetUserId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) throw databaseError(error.message);
+    return data;
+  }
+
+  async finishRun(runId: string, updates: Partial<DbMonitorRun>): Promise<void> {
+    const { error } = await this.client
+      .from('monitor_run')
+      .update({ finished_at: new Date().toISOString(), ...updates })
+      .eq('id', runId);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  async insertQueryResult(result: DbMonitorQueryResult): Promise<void> {
+    const { error } = await this.client
+      .from('monitor_query_result')
+      .insert(result);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  async findQueryResults(queryId: string, limit: number): Promise<DbMonitorQueryResult[]> {
+    const { data, error } = await this.client
+      .from('monitor_query_result')
+      .select('*')
+      .eq('query_id', queryId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw databaseError(error.message);
+    return data || [];
+  }
+}
@@ -0,0 +1,31 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../db';
+import { DbNotificationPreference } from '../types/database';
+import { databaseError } from '../utils/errors';
+
+export class NotificationPreferenceRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  /** The user's row, or null if they've never changed a setting */
+  async findByUserId(userId: string): Promise<DbNotificationPreference | null> {
+    const { data, error } = await this.client
+      .from('notification_preference')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw databaseError(error.message);
+    return data;
+  }
+
+  async upsert(row: DbNotificationPreference): Promise<DbNotificationPreference> {
+    const { data, error } = await this.client
+      .from('notification_preference')
+      .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw databaseError(error.message);
+    return data;
+  }
+}
@@ -0,0 +1,82 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../db';
+import { DbPendingNotification, PendingNotificationKind } from '../types/database';
+import { databaseError } from '../utils/errors';
+
+export class PendingNotificationRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async insert(rows: DbPendingNotification[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.client
+      .from('pending_notification')
+      .insert(rows);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  async findByUserId(userId: string): Promise<DbPendingNotification[]> {
+    const { data, error } = await this.client
+      .from('pending_notification')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw databaseError(error.message);
+    return data || [];
+  }
+
+  /**
+   * Users with held notifications to look at again: due ones, and ones held for
+   * a minimum batch size since before heldBefore
+   */
+  async findDueUserIds(now: Date, heldBefore: Date): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('pending_notification')
+      .select('user_id')
+      .or(`deliver_after.lte.${now.toISOString()},and(deliver_after.is.null,created_at.lte.${heldBefore.toISOString()})`);
+
+    if (error) throw databaseError(error.message);
+    return [...new Set((data || []).map(row => row.user_id as string))];
+  }
+
+  async reschedule(userId: string, kind: PendingNotificationKind, deliverAfter: Date | null): Promise<void> {
+    const { error } = await this.client
+      .from('pending_notification')
+      .update({ deliver_after: deliverAfter?.toISOString() ?? null })
+      .eq('user_id', userId)
+      .eq('kind', kind);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /** Move the user's notifications of this kind that are waiting for a later time, e.g. after their preferences change */
+  async rescheduleWaiting(userId: string, kind: PendingNotificationKind, deliverAfter: Date): Promise<void> {
+    const { error } = await this.client
+      .from('pending_notification')
+      .update({ deliver_after: deliverAfter.toISOString() })
+      .eq('user_id', userId)
+      .eq('kind', kind)
+      .gt('deliver_after', new Date().toISOString());
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /**
+   * Delete rows and return the ones this call deleted. The delete is the claim,
+   * so a held notification is only sent once even if two processes try.
+   */
+  async claim(ids: string[]): Promise<DbPendingNotification[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('pending_notification')
+      .delete()
+      .in('id', ids)
+      .select('*');
+
+    if (error) throw databaseError(error.message);
+    return data || [];
+  }
+}
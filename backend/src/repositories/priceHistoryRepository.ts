@@ -0,0 +1,81 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../db';
+import { DbPropertyPriceHistory } from '../types/database';
+import { databaseError } from '../utils/errors';
+
+export type PriceDropRow = DbPropertyPriceHistory & { property: { address: string } | null };
+
+export class PriceHistoryRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async insert(rows: DbPropertyPriceHistory[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    const { error } = await this.client
+      .from('property_price_history')
+      .insert(rows);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /**
+   * Mark every un-notified drop as notified and return them. The update is the
+   * claim, so two monitor processes never alert the same drop.
+   */
+  async claimPendingDrops(): Promise<PriceDropRow[]> {
+    const { data, error } = await this.client
+      .from('property_price_history')
+      .update({ notified_at: new Date().toISOString() })
+      .is('notified_at', null)
+      .lt('change_amount', 0)
+      .select('*, property(address)');
+
+    if (error) throw databaseError(error.message);
+    return (data || []) as PriceDropRow[];
+  }
+
+  /**
+   * Users following these properties: those who saved them, plus owners of
+   * active queries they were matched to - minus anyone who passed on them
+   */
+  async findInterestedUsers(propertyIds: string[]): Promise<{ user_id: string; property_id: string }[]> {
+    if (propertyIds.length === 0) return [];
+
+    const [actions, matches] = await Promise.all([
+      this.client
+        .from('user_property_action')
+        .select('user_id, property_id, action')
+        .in('property_id', propertyIds),
+      this.client
+        .from('query_property')
+        .select('property_id, query!inner(user_id, active)')
+        .in('property_id', propertyIds)
+        .eq('query.active', true),
+    ]);
+
+    if (actions.error) throw databaseError(actions.error.message);
+    if (matches.error) throw databaseError(matches.error.message);
+
+    const key = (userId: string, propertyId: string) => `${userId}:${propertyId}`;
+    const passed = new Set(
+      (actions.data || []).filter(a => a.action === 'passed').map(a => key(a.user_id, a.property_id))
+    );
+
+    const interested = new Map<string, { user_id: string; property_id: string }>();
+    const add = (userId: string, propertyId: string) => {
+      const k = key(userId, propertyId);
+      if (!passed.has(k)) interested.set(k, { user_id: userId, property_id: propertyId });
+    };
+
+    for (const action of actions.data || []) {
+      if (action.action === 'saved') add(action.user_id, action.property_id);
+    }
+    for (const match of matches.data || []) {
+      // Embedded many-to-one comes back as an object (typed loosely by the client)
+      const query = match.query as unknown as { user_id: string } | null;
+      if (query?.user_id) add(query.user_id, match.property_id);
+    }
+
+    return [...interested.values()];
+  }
+}
@@ -2,6 +2,9 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../db';
 import { DbProperty } from '../types/database';
 import { databaseError } from '../utils/errors';
+import { StructuredPrice } from '../utils/price';
+
+export type StoredPrice = Pick<DbProperty, 'id' | 'rightmove_id' | 'price' | 'price_amount' | 'price_monthly'>;
 
 export class PropertyRepository {
   constructor(private client: SupabaseClient = supabase) {}
@@ -31,6 +34,44 @@ export class PropertyRepository {
     return data;
   }
 
+  async findPricesByRightmoveIds(rightmoveIds: number[]): Promise<StoredPrice[]> {
+    if (rightmoveIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('property')
+      .select('id, rightmove_id, price, price_amount, price_monthly')
+      .in('rightmove_id', rightmoveIds);
+
+    if (error) throw databaseError(error.message);
+    return data || [];
+  }
+
+  /**
+   * Set the price only if its amounts are still those in previous, so two
+   * processes seeing the same change record it once. Returns whether this call
+   * made the update.
+   */
+  async updatePrice(
+    propertyId: string,
+    price: Pick<DbProperty, 'price'> & StructuredPrice,
+    previous: Pick<DbProperty, 'price_amount' | 'price_monthly'>
+  ): Promise<boolean> {
+    let update = this.client
+      .from('property')
+      .update(price)
+      .eq('id', propertyId);
+
+    for (const column of ['price_amount', 'price_monthly'] as const) {
+      const value = previous[column] ?? null;
+      update = value === null ? update.is(column, null) : update.eq(column, value);
+    }
+
+    const { data, error } = await update.select('id');
+
+    if (error) throw databaseError(error.message);
+    return !!data && data.length > 0;
+  }
+
   async findByIds(ids: string[]): Promise<DbProperty[]> {
     if (ids.length === 0) return [];
 
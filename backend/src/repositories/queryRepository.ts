@@ -18,13 +18,27 @@ export class QueryRepository {
     return data || [];
   }
 
+  async findById(queryId: string, userId: string): Promise<DbQuery | null> {
+    const { data, error } = await this.client
+      .from('query')
+      .select('*')
+      .eq('id', queryId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw databaseError(error.message);
+    return data;
+  }
+
   async insert(userId: string, query: CreateQueryRequest): Promise<DbQuery> {
     const row: Record<string, unknown> = {
       user_id: userId,
       name: query.name,
+      channel: query.channel ?? 'RENT',
       area_name: query.area_name,
       latitude: query.latitude,
       longitude: query.longitude,
+      location_identifier: query.location_identifier,
       min_price: query.min_price,
       max_price: query.max_price,
       min_bedrooms: query.min_bedrooms,
@@ -32,7 +46,20 @@ export class QueryRepository {
       min_bathrooms: query.min_bathrooms,
       max_bathrooms: query.max_bathrooms,
       radius: query.radius,
+      area_polygon: query.area_polygon,
       furnish_type: query.furnish_type,
+      tenure_types: query.tenure_types,
+      new_build: query.new_build,
+      exclude_retirement: query.exclude_retirement ?? false,
+      exclude_shared_ownership: query.exclude_shared_ownership ?? false,
+      property_types: query.property_types,
+      include_keywords: query.include_keywords,
+      exclude_keywords: query.exclude_keywords,
+      must_have: query.must_have,
+      check_interval_minutes: query.check_interval_minutes,
+      active_hours_start: query.active_hours_start,
+      active_hours_end: query.active_hours_end,
+      active_days: query.active_days,
       active: query.active ?? true,
     };
 
@@ -50,14 +77,17 @@ export class QueryRepository {
     return data;
   }
 
-  async update(queryId: string, userId: string, updates: UpdateQueryRequest): Promise<void> {
-    const { error } = await this.client
+  /** Returns false if the user has no query with this id */
+  async update(queryId: string, userId: string, updates: UpdateQueryRequest): Promise<boolean> {
+    const { data, error } = await this.client
       .from('query')
       .update(updates)
       .eq('id', queryId)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .select('id');
 
     if (error) throw databaseError(error.message);
+    return !!data && data.length > 0;
   }
 
   async delete(queryId: string, userId: string): Promise<void> {
@@ -70,6 +100,18 @@ export class QueryRepository {
     if (error) throw databaseError(error.message);
   }
 
+  /**
+   * Forget listings rejected by the query's old keyword/must-have filters
+   */
+  async clearExcludedListings(queryId: string): Promise<void> {
+    const { error } = await this.client
+      .from('query_excluded_listing')
+      .delete()
+      .eq('query_id', queryId);
+
+    if (error) throw databaseError(error.message);
+  }
+
   async findActive(): Promise<DbQuery[]> {
     const { data, error } = await this.client
       .from('query')
@@ -0,0 +1,101 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../db';
+import { databaseError } from '../utils/errors';
+
+export interface TelegramChatLink {
+  chatId: number;
+  username: string | null;
+}
+
+export class TelegramRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  /** Replace any outstanding code for the user */
+  async createLinkCode(userId: string, code: string, expiresAt: Date): Promise<void> {
+    const { error: deleteError } = await this.client
+      .from('telegram_link_code')
+      .delete()
+      .eq('user_id', userId);
+
+    if (deleteError) throw databaseError(deleteError.message);
+
+    const { error } = await this.client
+      .from('telegram_link_code')
+      .insert({ code, user_id: userId, expires_at: expiresAt.toISOString() });
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /**
+   * Delete the code and return its user, if it exists and hasn't expired.
+   * The delete is the claim, so a code can only be used once.
+   */
+  async consumeLinkCode(code: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('telegram_link_code')
+      .delete()
+      .eq('code', code)
+      .gt('expires_at', new Date().toISOString())
+      .select('user_id');
+
+    if (error) throw databaseError(error.message);
+    return data?.[0]?.user_id ?? null;
+  }
+
+  /** Point the user at this chat. A chat belongs to one user, so it's taken off anyone else. */
+  async linkChat(userId: string, chat: TelegramChatLink): Promise<void> {
+    await this.unlinkChat(chat.chatId);
+
+    const { error } = await this.client
+      .from('users')
+      .update({
+        telegram_chat_id: chat.chatId,
+        telegram_username: chat.username,
+        telegram_linked_at: new Date().toISOString()
+      })
+      .eq('id', userId);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  async unlinkChat(chatId: number): Promise<void> {
+    const { error } = await this.client
+      .from('users')
+      .update({ telegram_chat_id: null, telegram_username: null, telegram_linked_at: null })
+      .eq('telegram_chat_id', chatId);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  async unlinkUser(userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('users')
+      .update({ telegram_chat_id: null, telegram_username: null, telegram_linked_at: null })
+      .eq('id', userId);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  async findUserIdByChat(chatId: number): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('id')
+      .eq('telegram_chat_id', chatId)
+      .maybeSingle();
+
+    if (error) throw databaseError(error.message);
+    return data?.id ?? null;
+  }
+
+  async findChat(userId: string): Promise<TelegramChatLink | null> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('telegram_chat_id, telegram_username')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw databaseError(error.message);
+    if (!data?.telegram_chat_id) return null;
+    return { chatId: Number(data.telegram_chat_id), username: data.telegram_username };
+  }
+}
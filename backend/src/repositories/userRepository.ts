@@ -39,4 +39,49 @@ export class UserRepository {
 
     if (error) throw databaseError(error.message);
   }
+
+  async setEmailDigest(userId: string, enabled: boolean): Promise<void> {
+    const { error } = await this.client
+      .from('users')
+      .update({ email_digest: enabled })
+      .eq('id', userId);
+
+    if (error) throw databaseError(error.message);
+  }
+
+  /**
+   * Turn off email digests for whoever owns this unsubscribe token. Returns
+   * whether the token matched a user.
+   */
+  async unsubscribeEmail(token: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('users')
+      .update({ email_digest: false })
+      .eq('email_unsubscribe_token', token)
+      .select('id');
+
+    if (error) throw databaseError(error.message);
+    return !!data && data.length > 0;
+  }
+
+  /**
+   * Where to send a user's digest: their auth email and unsubscribe token, or
+   * null if they haven't turned digests on or have no email address
+   */
+  async findEmailRecipient(userId: string): Promise<{ email: string; unsubscribeToken: string } | null> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('email_digest, email_unsubscribe_token')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw databaseError(error.message);
+    if (!data?.email_digest) return null;
+
+    const { data: auth, error: authError } = await this.client.auth.admin.getUserById(userId);
+    if (authError) throw databaseError(authError.message);
+    if (!auth.user?.email) return null;
+
+    return { email: auth.user.email, unsubscribeToken: data.email_unsubscribe_token };
+  }
 }
@@ -17,6 +17,18 @@ router.put('/', validate(upsertTokenSchema), async (req, res) => {
   }
 });
 
+// Unregister one device (e.g. on sign-out)
+router.delete('/:token', async (req, res) => {
+  try {
+    const result = await controller.removeToken(res.locals.userId, req.params.token as string);
+    res.json(result);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to remove device token');
+    res.status(status).json({ error: message });
+  }
+});
+
+// Unregister every device for the user
 router.delete('/', async (req, res) => {
   try {
     const result = await controller.removeTokens(res.locals.userId);
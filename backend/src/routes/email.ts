@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/userController';
+import { toErrorResponse } from '../errors';
+
+// Unauthenticated - opened from links in digest emails, so mounted before authMiddleware
+
+const router = Router();
+const controller = new UserController();
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>
+  <body style="font-family:-apple-system,Helvetica,Arial,sans-serif;max-width:480px;margin:48px auto;padding:0 24px;color:#222">
+    <h1 style="font-size:22px">${title}</h1>
+    ${body}
+  </body>
+</html>
+`;
+}
+
+function tokenFrom(query: unknown): string {
+  const token = (query as Record<string, unknown>).token;
+  return typeof token === 'string' ? token : '';
+}
+
+// Confirmation page - unsubscribing on GET would let link scanners do it
+router.get('/unsubscribe', (req, res) => {
+  const token = encodeURIComponent(tokenFrom(req.query));
+  res.type('html').send(page(
+    'Unsubscribe from Ijar emails',
+    `<p>You'll stop getting digests of new listings by email. Push notifications aren't affected.</p>
+    <form method="post" action="?token=${token}"><button type="submit">Unsubscribe</button></form>`
+  ));
+});
+
+// The form above, and one-click unsubscribe from mail clients (RFC 8058)
+router.post('/unsubscribe', async (req, res) => {
+  try {
+    await controller.unsubscribeEmail(tokenFrom(req.query));
+    res.type('html').send(page(
+      'You\'re unsubscribed',
+      '<p>You won\'t get any more digest emails. You can turn them back on in the app.</p>'
+    ));
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to unsubscribe');
+    res.status(status).type('html').send(page('Couldn\'t unsubscribe', `<p>${message}</p>`));
+  }
+});
+
+export default router;
@@ -15,4 +15,14 @@ router.post('/refresh', async (req, res) => {
   }
 });
 
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await controller.getJob(res.locals.userId, req.params.id as string);
+    res.json(job);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to load job');
+    res.status(status).json({ error: message });
+  }
+});
+
 export default router;
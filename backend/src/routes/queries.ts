@@ -37,6 +37,17 @@ router.put('/:id', validate(updateQuerySchema), async (req, res) => {
   }
 });
 
+router.get('/:id/runs', async (req, res) => {
+  try {
+    const limit = typeof req.query.limit === 'string' ? req.query.limit : undefined;
+    const result = await controller.getQueryRuns(res.locals.userId, req.params.id as string, limit);
+    res.json(result);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to load query runs');
+    res.status(status).json({ error: message });
+  }
+});
+
 router.delete('/:id', async (req, res) => {
   try {
     const result = await controller.deleteQuery(res.locals.userId, req.params.id as string);
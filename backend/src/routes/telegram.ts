@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { TelegramController } from '../controllers/telegramController';
+import { toErrorResponse } from '../errors';
+
+const router = Router();
+const controller = new TelegramController();
+
+// Whether Telegram is available and linked for this user
+router.get('/', async (req, res) => {
+  try {
+    const result = await controller.getStatus(res.locals.userId);
+    res.json(result);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to get Telegram status');
+    res.status(status).json({ error: message });
+  }
+});
+
+// One-time link code - the app opens the returned t.me URL to finish linking in Telegram
+router.post('/link', async (req, res) => {
+  try {
+    const result = await controller.createLinkCode(res.locals.userId);
+    res.json(result);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to create Telegram link');
+    res.status(status).json({ error: message });
+  }
+});
+
+router.delete('/link', async (req, res) => {
+  try {
+    const result = await controller.unlink(res.locals.userId);
+    res.json(result);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to unlink Telegram');
+    res.status(status).json({ error: message });
+  }
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import { timingSafeEqual } from 'crypto';
+import { Router } from 'express';
+import config from '../config';
+import { TelegramController } from '../controllers/telegramController';
+
+// Unauthenticated - called by Telegram, which proves itself with the secret token
+// given to setWebhook (see npm run telegram-bot -- --set-webhook)
+
+const router = Router();
+const controller = new TelegramController();
+
+function isFromTelegram(header: string | undefined): boolean {
+  const secret = config.telegramWebhookSecret;
+  if (!secret || !header) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+router.post('/', async (req, res) => {
+  if (!isFromTelegram(req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+    res.sendStatus(401);
+    return;
+  }
+
+  // Always acknowledge - Telegram redelivers anything that isn't a 2xx, and a
+  // failing update would otherwise block the ones behind it
+  try {
+    await controller.handleUpdate(req.body);
+  } catch (error) {
+    console.error('Failed to handle Telegram update:', error);
+  }
+  res.sendStatus(200);
+});
+
+export default router;
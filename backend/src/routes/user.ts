@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/userController';
+import { validate } from '../middleware/validate';
+import { emailDigestSchema, notificationPreferencesSchema } from '../schemas';
 import { toErrorResponse } from '../errors';
 
 const router = Router();
@@ -35,4 +37,35 @@ router.patch('/onboarding', async (req, res) => {
   }
 });
 
+router.put('/email-digest', validate(emailDigestSchema), async (req, res) => {
+  try {
+    const result = await controller.setEmailDigest(res.locals.userId, req.body);
+    res.json(result);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to update email digest');
+    res.status(status).json({ error: message });
+  }
+});
+
+router.get('/notification-preferences', async (req, res) => {
+  try {
+    const preferences = await controller.getNotificationPreferences(res.locals.userId);
+    res.json(preferences);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to load notification preferences');
+    res.status(status).json({ error: message });
+  }
+});
+
+// Partial update - returns the full preferences after the change
+router.put('/notification-preferences', validate(notificationPreferencesSchema), async (req, res) => {
+  try {
+    const preferences = await controller.updateNotificationPreferences(res.locals.userId, req.body);
+    res.json(preferences);
+  } catch (error) {
+    const { status, message } = toErrorResponse(error, 'Failed to update notification preferences');
+    res.status(status).json({ error: message });
+  }
+});
+
 export default router;
@@ -0,0 +1,8 @@
+/**
+ * Scheduler Exports
+ */
+
+export { JobQueue } from './jobQueue';
+export type { Job, JobStatus, JobQueueOptions } from './jobQueue';
+export { MonitorScheduler, monitorScheduler, nextTick } from './monitorScheduler';
+export type { MonitorJob, MonitorSchedulerOptions } from './monitorScheduler';
@@ -0,0 +1,130 @@
+/**
+ * Job Queue
+ * In-process queue with bounded concurrency. A job whose key matches one that
+ * is still waiting is folded into it, and finished jobs are kept for a while so
+ * callers can poll their status.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job<T> {
+  id: string;
+  /** Jobs with the same key are deduplicated while one is queued */
+  key: string;
+  /** Owner, for access checks - null for system jobs */
+  userId: string | null;
+  status: JobStatus;
+  enqueuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: T | null;
+  error: string | null;
+}
+
+export interface JobQueueOptions {
+  /** Max jobs running at once */
+  concurrency: number;
+  /** How long finished jobs stay visible to get() */
+  retainFinishedMs: number;
+}
+
+export class JobQueue<T> {
+  private jobs = new Map<string, Job<T>>();
+  private tasks = new Map<string, () => Promise<T>>();
+  private waiting: string[] = [];
+  private running = 0;
+
+  constructor(private options: JobQueueOptions) {}
+
+  /**
+   * Queue a task, or return the job already waiting under the same key
+   */
+  enqueue(key: string, userId: string | null, task: () => Promise<T>): { job: Job<T>; deduplicated: boolean } {
+    this.prune();
+
+    const existing = this.waiting
+      .map(id => this.jobs.get(id)!)
+      .find(job => job.key === key);
+    if (existing) {
+      return { job: existing, deduplicated: true };
+    }
+
+    const job: Job<T> = {
+      id: randomUUID(),
+      key,
+      userId,
+      status: 'queued',
+      enqueuedAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      result: null,
+      error: null
+    };
+
+    this.jobs.set(job.id, job);
+    this.tasks.set(job.id, task);
+    this.waiting.push(job.id);
+    this.drain();
+
+    return { job, deduplicated: false };
+  }
+
+  get(id: string): Job<T> | undefined {
+    this.prune();
+    return this.jobs.get(id);
+  }
+
+  /** Jobs queued or running */
+  get active(): number {
+    return this.waiting.length + this.running;
+  }
+
+  /**
+   * Resolves once nothing is queued or running
+   */
+  async idle(pollMs = 250): Promise<void> {
+    while (this.active > 0) {
+      await new Promise(resolve => setTimeout(resolve, pollMs));
+    }
+  }
+
+  private drain(): void {
+    while (this.running < this.options.concurrency && this.waiting.length > 0) {
+      const id = this.waiting.shift()!;
+      void this.execute(id);
+    }
+  }
+
+  private async execute(id: string): Promise<void> {
+    const job = this.jobs.get(id)!;
+    const task = this.tasks.get(id)!;
+    this.tasks.delete(id);
+
+    this.running++;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      job.result = await task();
+      job.status = 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.retainFinishedMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Monitor Scheduler
+ * Runs PropertyMonitor inside the backend: a regular tick that checks whichever
+ * queries are due (see utils/schedule), plus on-demand per-user refreshes queued
+ * from POST /api/monitor/refresh
+ */
+
+import config from '../config';
+import { PropertyMonitor, MonitorRunSummary } from '../monitor';
+import { JobQueue, Job } from './jobQueue';
+
+export type MonitorJob = Job<MonitorRunSummary>;
+
+export interface MonitorSchedulerOptions {
+  /** Minutes between scheduled runs over due queries; 0 disables scheduled runs */
+  tickMinutes: number;
+  concurrency: number;
+  retainFinishedMs: number;
+}
+
+/**
+ * The next tick strictly after `now`, aligned to multiples of tickMinutes past UTC midnight
+ */
+export function nextTick(tickMinutes: number, now: Date = new Date()): Date | null {
+  if (!(tickMinutes > 0)) return null;
+
+  const tickMs = tickMinutes * 60_000;
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const next = midnight + (Math.floor((now.getTime() - midnight) / tickMs) + 1) * tickMs;
+
+  return new Date(next);
+}
+
+export class MonitorScheduler {
+  private queue: JobQueue<MonitorRunSummary>;
+  private monitor: PropertyMonitor | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private options: MonitorSchedulerOptions = {
+    tickMinutes: config.monitorTickMinutes,
+    concurrency: config.schedulerConcurrency,
+    retainFinishedMs: config.schedulerJobRetention
+  }) {
+    this.queue = new JobQueue({
+      concurrency: options.concurrency,
+      retainFinishedMs: options.retainFinishedMs
+    });
+  }
+
+  /**
+   * Start the timer for scheduled runs
+   */
+  start(): void {
+    this.scheduleNext();
+  }
+
+  /**
+   * Stop scheduling, wait for running jobs and release the monitor's connections
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.queue.idle();
+
+    if (this.monitor) {
+      await this.monitor.cleanup();
+      this.monitor = null;
+    }
+  }
+
+  /** Check every query that is due */
+  enqueueDueRun(): { job: MonitorJob; deduplicated: boolean } {
+    return this.queue.enqueue('due', null, () => this.runMonitor(undefined, true));
+  }
+
+  /** Check all of a user's queries now, due or not */
+  enqueueUserRefresh(userId: string): { job: MonitorJob; deduplicated: boolean } {
+    return this.queue.enqueue(`user:${userId}`, userId, () => this.runMonitor(userId, false));
+  }
+
+  getJob(id: string): MonitorJob | undefined {
+    return this.queue.get(id);
+  }
+
+  private async runMonitor(userId: string | undefined, onlyDue: boolean): Promise<MonitorRunSummary> {
+    // Created on first use so the API can start without push credentials loaded
+    if (!this.monitor) {
+      this.monitor = new PropertyMonitor();
+    }
+
+    const summary = await this.monitor.run(userId, { onlyDue });
+    if (summary.status === 'failed') {
+      throw new Error(summary.error || 'Monitor run failed');
+    }
+    return summary;
+  }
+
+  private scheduleNext(): void {
+    const next = nextTick(this.options.tickMinutes);
+    if (!next) {
+      console.log('🗓️ Scheduled monitor runs disabled - runs only on refresh');
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      const { job, deduplicated } = this.enqueueDueRun();
+      console.log(`🗓️ Scheduled monitor run ${deduplicated ? 'already queued' : 'queued'} (job ${job.id})`);
+      this.scheduleNext();
+    }, next.getTime() - Date.now());
+
+    // Don't keep the process alive just for the schedule
+    this.timer.unref();
+  }
+}
+
+/** Process-wide scheduler used by the API server */
+export const monitorScheduler = new MonitorScheduler();
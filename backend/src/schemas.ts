@@ -1,4 +1,36 @@
 import { z } from 'zod';
+import { isValidTimeZone } from './utils/notificationSchedule';
+
+const channelSchema = z.enum(['RENT', 'BUY']);
+const tenureTypeSchema = z.enum(['FREEHOLD', 'LEASEHOLD', 'SHARE_OF_FREEHOLD', 'COMMONHOLD']);
+const propertyTypeSchema = z.enum(['flat', 'detached', 'semi-detached', 'terraced', 'bungalow', 'park-home', 'land', 'private-halls']);
+const mustHaveSchema = z.enum(['garden', 'parking', 'pets_allowed', 'balcony', 'lift', 'bills_included']);
+const listingStatusSchema = z.enum(['available', 'under_offer', 'let_agreed', 'sold_stc', 'removed', 'relisted']);
+const keywordListSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
+const locationIdentifierSchema = z.string().regex(
+  /^(REGION|OUTCODE|POSTCODE|STATION)\^\d+$/,
+  'Expected a Rightmove location identifier like REGION^87490, OUTCODE^2527 or STATION^2057'
+);
+export const LOCATION_REQUIRED = 'Provide either latitude and longitude or a location identifier';
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time like 08:00');
+// 15 minutes to a week; null falls back to the default interval
+const checkIntervalSchema = z.number().int().min(15).max(7 * 24 * 60);
+// 0 = Sunday ... 6 = Saturday
+const activeDaysSchema = z.array(z.number().int().min(0).max(6)).min(1).max(7);
+
+// GeoJSON [longitude, latitude] (an optional altitude is allowed and ignored)
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)], z.number());
+const ringSchema = z.array(positionSchema).min(4).max(500).refine(
+  ring => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+  'Polygon rings must be closed (first and last positions equal)'
+);
+const polygonCoordinatesSchema = z.array(ringSchema).min(1).max(10);
+const searchAreaSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: polygonCoordinatesSchema }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(polygonCoordinatesSchema).min(1).max(10) }),
+]);
 
 // =============================================================================
 // Property Schemas
@@ -6,6 +38,7 @@ import { z } from 'zod';
 
 export const PropertySchema = z.object({
   id: z.string(),
+  channel: channelSchema.optional(),
   images: z.array(z.string()),
   price: z.string(),
   bedrooms: z.number(),
@@ -18,6 +51,9 @@ export const PropertySchema = z.object({
   branch_name: z.string().nullable().optional(),
   latitude: z.number().nullable().optional(),
   longitude: z.number().nullable().optional(),
+  // Set by the backend; ignored when the app saves a property
+  listing_status: listingStatusSchema.optional(),
+  status_changed_at: z.string().nullable().optional(),
 });
 
 export const savePropertySchema = z.object({
@@ -52,9 +88,11 @@ export const addPropertyToGroupSchema = z.object({
 // Search Schemas
 // =============================================================================
 
-export const searchSchema = z.object({
-  latitude: z.number(),
-  longitude: z.number(),
+const searchFieldsSchema = z.object({
+  channel: channelSchema.optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  locationIdentifier: locationIdentifierSchema.optional(),
   minPrice: z.number().optional(),
   maxPrice: z.number().optional(),
   minBedrooms: z.number().optional(),
@@ -62,24 +100,38 @@ export const searchSchema = z.object({
   minBathrooms: z.number().optional(),
   maxBathrooms: z.number().optional(),
   radius: z.number().optional(),
+  area: searchAreaSchema.optional(),
   furnishType: z.string().optional(),
+  tenureTypes: z.array(tenureTypeSchema).optional(),
+  newBuild: z.enum(['only', 'exclude']).optional(),
+  excludeRetirement: z.boolean().optional(),
+  excludeSharedOwnership: z.boolean().optional(),
+  propertyTypes: z.array(propertyTypeSchema).optional(),
+  sortBy: z.enum(['newestListed', 'highestPrice', 'lowestPrice', 'oldestListed']).optional(),
   page: z.number().optional(),
 });
 
-export const onboardingSearchSchema = searchSchema.extend({
+const hasSearchLocation = (body: z.infer<typeof searchFieldsSchema>) =>
+  !!body.locationIdentifier || (body.latitude != null && body.longitude != null);
+
+export const searchSchema = searchFieldsSchema.refine(hasSearchLocation, LOCATION_REQUIRED);
+
+export const onboardingSearchSchema = searchFieldsSchema.extend({
   queryId: z.string(),
-});
+}).refine(hasSearchLocation, LOCATION_REQUIRED);
 
 // =============================================================================
 // Query Schemas
 // =============================================================================
 
-export const createQuerySchema = z.object({
+const queryFieldsSchema = z.object({
   id: z.string().optional(),
   name: z.string(),
+  channel: channelSchema.optional(),
   area_name: z.string(),
-  latitude: z.number(),
-  longitude: z.number(),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  location_identifier: locationIdentifierSchema.nullable().optional(),
   min_price: z.number().optional(),
   max_price: z.number().optional(),
   min_bedrooms: z.number().optional(),
@@ -87,11 +139,30 @@ export const createQuerySchema = z.object({
   min_bathrooms: z.number().optional(),
   max_bathrooms: z.number().optional(),
   radius: z.number().optional(),
+  area_polygon: searchAreaSchema.nullable().optional(),
   furnish_type: z.string().optional(),
+  tenure_types: z.array(tenureTypeSchema).nullable().optional(),
+  new_build: z.enum(['only', 'exclude']).nullable().optional(),
+  exclude_retirement: z.boolean().optional(),
+  exclude_shared_ownership: z.boolean().optional(),
+  property_types: z.array(propertyTypeSchema).nullable().optional(),
+  include_keywords: keywordListSchema.nullable().optional(),
+  exclude_keywords: keywordListSchema.nullable().optional(),
+  must_have: z.array(mustHaveSchema).nullable().optional(),
+  check_interval_minutes: checkIntervalSchema.nullable().optional(),
+  active_hours_start: timeOfDaySchema.nullable().optional(),
+  active_hours_end: timeOfDaySchema.nullable().optional(),
+  active_days: activeDaysSchema.nullable().optional(),
   active: z.boolean().optional(),
 });
 
-export const updateQuerySchema = createQuerySchema.partial().omit({ id: true });
+// Mirrors the query_location_check constraint
+export const hasQueryLocation = (query: Pick<z.infer<typeof queryFieldsSchema>, 'latitude' | 'longitude' | 'location_identifier'>) =>
+  !!query.location_identifier || (query.latitude != null && query.longitude != null);
+
+export const createQuerySchema = queryFieldsSchema.refine(hasQueryLocation, LOCATION_REQUIRED);
+
+export const updateQuerySchema = queryFieldsSchema.partial().omit({ id: true });
 
 // =============================================================================
 // Device Token Schemas
@@ -99,7 +170,37 @@ export const updateQuerySchema = createQuerySchema.partial().omit({ id: true });
 
 export const upsertTokenSchema = z.object({
   token: z.string().min(1, 'Token is required'),
-  deviceType: z.enum(['ios']),
+  deviceType: z.enum(['ios', 'android']),
+  // APNs only - Android tokens have no environment
+  environment: z.enum(['production', 'sandbox']).optional(),
+  appVersion: z.string().max(50).optional(),
+  deviceName: z.string().max(100).optional(),
+});
+
+// =============================================================================
+// User Schemas
+// =============================================================================
+
+export const emailDigestSchema = z.object({
+  enabled: z.boolean(),
+});
+
+// Partial update - omitted fields keep their current value; quietHours: null turns quiet hours off
+export const notificationPreferencesSchema = z.object({
+  channels: z.object({
+    push: z.boolean().optional(),
+    email: z.boolean().optional(),
+    telegram: z.boolean().optional(),
+  }).optional(),
+  mutedQueryIds: z.array(z.string()).max(100).optional(),
+  quietHours: z.object({
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  }).nullable().optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Expected an IANA timezone like Europe/London').optional(),
+  minBatchSize: z.number().int().min(1).max(50).optional(),
+  delivery: z.enum(['instant', 'digest']).optional(),
+  digestTime: timeOfDaySchema.optional(),
 });
 
 // =============================================================================
@@ -118,3 +219,5 @@ export type OnboardingSearchRequest = z.infer<typeof onboardingSearchSchema>;
 export type CreateQueryRequest = z.infer<typeof createQuerySchema>;
 export type UpdateQueryRequest = z.infer<typeof updateQuerySchema>;
 export type UpsertTokenRequest = z.infer<typeof upsertTokenSchema>;
+export type EmailDigestRequest = z.infer<typeof emailDigestSchema>;
+export type NotificationPreferencesRequest = z.infer<typeof notificationPreferencesSchema>;
@@ -4,6 +4,11 @@ import { z } from 'zod';
 export const DbUserSchema = z.object({
   id: z.string(),
   has_completed_onboarding: z.boolean(),
+  email_digest: z.boolean().optional(),
+  email_unsubscribe_token: z.string().optional(),
+  telegram_chat_id: z.number().nullable().optional(),
+  telegram_username: z.string().nullable().optional(),
+  telegram_linked_at: z.string().nullable().optional(),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
@@ -3,6 +3,7 @@ import express from 'express';
 import { authMiddleware } from './middleware/auth';
 import { GroupController } from './controllers/groupController';
 import { toErrorResponse } from './errors';
+import { monitorScheduler } from './scheduler';
 
 import searchRoutes from './routes/search';
 import propertyRoutes from './routes/properties';
@@ -12,6 +13,9 @@ import userRoutes from './routes/user';
 import queryRoutes from './routes/queries';
 import deviceTokenRoutes from './routes/deviceTokens';
 import monitorRoutes from './routes/monitor';
+import emailRoutes from './routes/email';
+import telegramRoutes from './routes/telegram';
+import telegramWebhookRoutes from './routes/telegramWebhook';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -32,7 +36,11 @@ app.use((req, res, next) => {
   next();
 });
 
-// All routes require auth
+// Unsubscribe links in emails and the Telegram webhook - the only unauthenticated routes
+app.use('/api/email', emailRoutes);
+app.use('/api/telegram/webhook', telegramWebhookRoutes);
+
+// All other routes require auth
 app.use('/api', authMiddleware);
 
 // Routes
@@ -44,6 +52,7 @@ app.use('/api/user', userRoutes);
 app.use('/api/queries', queryRoutes);
 app.use('/api/device-tokens', deviceTokenRoutes);
 app.use('/api/monitor', monitorRoutes);
+app.use('/api/telegram', telegramRoutes);
 
 // GET /api/properties/:id/groups — mounted separately since it crosses resource boundaries
 const groupController = new GroupController();
@@ -57,7 +66,16 @@ app.get('/api/properties/:id/groups', async (req, res) => {
   }
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`\nAPI running at http://localhost:${PORT}`);
-  console.log(`All endpoints require Authorization: Bearer <jwt>\n`);
+  console.log(`All endpoints except /api/email/unsubscribe and /api/telegram/webhook require Authorization: Bearer <jwt>\n`);
+  monitorScheduler.start();
+});
+
+// Let in-flight monitor jobs finish before exiting
+process.on('SIGTERM', async () => {
+  console.log('Shutting down...');
+  server.close();
+  await monitorScheduler.stop();
+  process.exit(0);
 });
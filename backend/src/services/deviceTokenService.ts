@@ -1,10 +1,24 @@
 import { DeviceTokenRepository } from '../repositories/deviceTokenRepository';
+import { UpsertTokenRequest } from '../schemas';
 
 export class DeviceTokenService {
   constructor(private tokenRepo: DeviceTokenRepository = new DeviceTokenRepository()) {}
 
-  async upsertToken(userId: string, token: string, deviceType: string): Promise<{ success: boolean }> {
-    await this.tokenRepo.upsert(userId, token, deviceType);
+  async upsertToken(userId: string, data: UpsertTokenRequest): Promise<{ success: boolean }> {
+    await this.tokenRepo.upsert({
+      user_id: userId,
+      device_token: data.token,
+      device_type: data.deviceType,
+      // Left out when not sent, so re-registering keeps an environment learned from APNs
+      ...(data.environment !== undefined ? { environment: data.environment } : {}),
+      app_version: data.appVersion ?? null,
+      device_name: data.deviceName ?? null,
+    });
+    return { success: true };
+  }
+
+  async removeToken(userId: string, token: string): Promise<{ success: boolean }> {
+    await this.tokenRepo.remove(userId, token);
     return { success: true };
   }
 
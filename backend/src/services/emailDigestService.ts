@@ -0,0 +1,40 @@
+import config from '../config';
+import { DigestSection, EmailTransport, renderNewListingsDigest } from '../email';
+import { UserRepository } from '../repositories/userRepository';
+
+/** Link for the footer and List-Unsubscribe header - handled by routes/email */
+export function unsubscribeUrlFor(token: string): string {
+  return `${config.publicBaseUrl.replace(/\/$/, '')}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export class EmailDigestService {
+  constructor(
+    private transport: EmailTransport,
+    private userRepo: UserRepository = new UserRepository()
+  ) {}
+
+  /**
+   * Email a digest of new listings per saved search to a user who has turned
+   * digests on. Returns false if there was nothing to send or nobody to send it to.
+   */
+  async sendNewListingsDigest(userId: string, sections: DigestSection[]): Promise<boolean> {
+    const nonEmpty = sections.filter(section => section.listings.length > 0);
+    if (nonEmpty.length === 0) return false;
+
+    const recipient = await this.userRepo.findEmailRecipient(userId);
+    if (!recipient) return false;
+
+    const unsubscribeUrl = unsubscribeUrlFor(recipient.unsubscribeToken);
+    await this.transport.send({
+      from: config.emailFrom,
+      to: recipient.email,
+      ...renderNewListingsDigest(nonEmpty, unsubscribeUrl),
+      headers: {
+        // One-click unsubscribe (RFC 8058) - mail clients POST to the URL
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
+    });
+    return true;
+  }
+}
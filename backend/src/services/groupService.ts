@@ -62,6 +62,7 @@ export class GroupService {
     const properties = await this.propertyRepo.findByIds(propertyIds);
     return properties.map(prop => ({
       id: String(prop.rightmove_id),
+      channel: prop.channel || 'RENT',
       images: prop.images || [],
       price: prop.price,
       bedrooms: prop.bedrooms,
@@ -74,6 +75,8 @@ export class GroupService {
       branch_name: prop.branch_name || null,
       latitude: prop.latitude || null,
       longitude: prop.longitude || null,
+      listing_status: prop.listing_status || 'available',
+      status_changed_at: prop.status_changed_at || null,
     }));
   }
 
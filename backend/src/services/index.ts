@@ -3,4 +3,14 @@
  */
 
 export { SupabaseService } from './supabase';
-export { PushNotificationService } from './notifications';
+export {
+  PushNotificationService,
+  propertyNotificationPayload,
+  priceDropNotificationPayload,
+  statusChangeNotificationPayload
+} from './notifications';
+export { PriceTrackingService } from './priceTrackingService';
+export { ListingStatusService } from './listingStatusService';
+export { EmailDigestService, unsubscribeUrlFor } from './emailDigestService';
+export { TelegramService } from './telegramService';
+export { NotificationPreferenceService } from './notificationPreferenceService';
@@ -0,0 +1,136 @@
+import { RightmoveAPI, RightmoveNotFoundError } from '../api';
+import { ListingStatusRepository } from '../repositories/listingStatusRepository';
+import { ListingStatus } from '../types';
+import { mapPool } from '../utils/concurrency';
+import { nextListingStatus, parseListingStatus } from '../utils/listingStatus';
+
+export interface StatusChange {
+  propertyId: string;
+  rightmoveId: number;
+  address: string;
+  from: ListingStatus;
+  to: ListingStatus;
+  rawStatus: string | null;
+}
+
+export interface StatusRecheckResult {
+  checked: number;
+  /** Listings we couldn't fetch - left due so the next run retries them */
+  failed: number;
+  changes: StatusChange[];
+}
+
+export interface RecheckOptions {
+  /** Re-check properties last checked before this */
+  staleBefore: Date;
+  limit: number;
+  concurrency: number;
+  signal?: AbortSignal;
+}
+
+/** Status changes to push to one user */
+export interface StatusAlert {
+  userId: string;
+  changes: { propertyId: string; address: string; status: ListingStatus }[];
+}
+
+export class ListingStatusService {
+  constructor(
+    private api: RightmoveAPI = new RightmoveAPI(),
+    private statusRepo: ListingStatusRepository = new ListingStatusRepository()
+  ) {}
+
+  /**
+   * Fetch saved and grouped properties that are due a check and record any
+   * status transitions. A listing Rightmove no longer has is 'removed'.
+   */
+  async recheckFollowed(options: RecheckOptions): Promise<StatusRecheckResult> {
+    const due = await this.statusRepo.findDueForCheck(options.staleBefore, options.limit);
+    if (due.length === 0) return { checked: 0, failed: 0, changes: [] };
+
+    const observed = await mapPool(due, options.concurrency, async (property) => {
+      try {
+        const { property: details } = await this.api.getPropertyDetails(property.rightmove_id, { signal: options.signal });
+        return { status: parseListingStatus(details.status), raw: details.status ?? null };
+      } catch (error) {
+        if (error instanceof RightmoveNotFoundError) {
+          return { status: 'removed' as ListingStatus, raw: null };
+        }
+        throw error;
+      }
+    });
+
+    const unchanged: string[] = [];
+    const candidates: StatusChange[] = [];
+    let failed = 0;
+
+    due.forEach((property, index) => {
+      const result = observed[index];
+      if (result.status === 'rejected') {
+        failed++;
+        return;
+      }
+
+      const current = property.listing_status || 'available';
+      const next = nextListingStatus(current, result.value.status);
+      if (next === current) {
+        unchanged.push(property.id!);
+      } else {
+        candidates.push({
+          propertyId: property.id!,
+          rightmoveId: property.rightmove_id,
+          address: property.address,
+          from: current,
+          to: next,
+          rawStatus: result.value.raw
+        });
+      }
+    });
+
+    await this.statusRepo.markChecked(unchanged);
+
+    const changes: StatusChange[] = [];
+    for (const change of candidates) {
+      if (await this.statusRepo.updateStatus(change.propertyId, change.from, change.to)) {
+        changes.push(change);
+      }
+    }
+
+    await this.statusRepo.insertHistory(changes.map(change => ({
+      property_id: change.propertyId,
+      from_status: change.from,
+      to_status: change.to,
+      raw_status: change.rawStatus
+    })));
+
+    return { checked: due.length, failed, changes };
+  }
+
+  /**
+   * Claim every change not yet alerted and group them by follower. A property
+   * that changed more than once since the last alert is reported at its latest status.
+   */
+  async claimStatusAlerts(): Promise<StatusAlert[]> {
+    const rows = await this.statusRepo.claimPendingChanges();
+    if (rows.length === 0) return [];
+
+    const latest = new Map<string, StatusAlert['changes'][number]>();
+    const ordered = [...rows].sort((a, b) => (a.changed_at || '').localeCompare(b.changed_at || ''));
+    for (const row of ordered) {
+      latest.set(row.property_id, {
+        propertyId: row.property_id,
+        address: row.property?.address || 'A property you saved',
+        status: row.to_status
+      });
+    }
+
+    const followers = await this.statusRepo.findFollowers([...latest.keys()]);
+    const alerts = new Map<string, StatusAlert['changes']>();
+    for (const { user_id, property_id } of followers) {
+      if (!alerts.has(user_id)) alerts.set(user_id, []);
+      alerts.get(user_id)!.push(latest.get(property_id)!);
+    }
+
+    return [...alerts].map(([userId, changes]) => ({ userId, changes }));
+  }
+}
@@ -1,10 +1,24 @@
-import { MonitorRepository } from '../repositories/monitorRepository';
+import { monitorScheduler, MonitorScheduler, MonitorJob, JobStatus } from '../scheduler';
+import { notFound, ErrorCodes } from '../utils/errors';
 
 export class MonitorService {
-  constructor(private monitorRepo: MonitorRepository = new MonitorRepository()) {}
+  constructor(private scheduler: MonitorScheduler = monitorScheduler) {}
 
-  async refreshPropertiesForUser(userId: string): Promise<{ success: boolean }> {
-    await this.monitorRepo.triggerWorkflow(userId);
-    return { success: true };
+  async refreshPropertiesForUser(userId: string): Promise<{
+    success: boolean;
+    jobId: string;
+    status: JobStatus;
+    deduplicated: boolean;
+  }> {
+    const { job, deduplicated } = this.scheduler.enqueueUserRefresh(userId);
+    return { success: true, jobId: job.id, status: job.status, deduplicated };
+  }
+
+  async getJob(userId: string, jobId: string): Promise<MonitorJob> {
+    const job = this.scheduler.getJob(jobId);
+    if (!job || job.userId !== userId) {
+      throw notFound(ErrorCodes.JOB_NOT_FOUND, 'Job not found');
+    }
+    return job;
   }
 }
@@ -0,0 +1,111 @@
+import { NotificationPreferenceRepository } from '../repositories/notificationPreferenceRepository';
+import { PendingNotificationRepository } from '../repositories/pendingNotificationRepository';
+import { QueryRepository } from '../repositories/queryRepository';
+import { UserRepository } from '../repositories/userRepository';
+import { NotificationPreferencesRequest } from '../schemas';
+import { NotificationPreferences } from '../types/api';
+import { DbNotificationPreference } from '../types/database';
+import { notFound, ErrorCodes } from '../utils/errors';
+import { DEFAULT_NOTIFICATION_PREFERENCES, heldDeliveryTime } from '../utils/notificationSchedule';
+
+function toPreferences(row: DbNotificationPreference | null, emailDigest: boolean): NotificationPreferences {
+  const defaults = DEFAULT_NOTIFICATION_PREFERENCES;
+  if (!row) {
+    return { ...defaults, channels: { ...defaults.channels, email: emailDigest } };
+  }
+
+  return {
+    channels: { push: row.push_enabled, email: emailDigest, telegram: row.telegram_enabled },
+    mutedQueryIds: row.muted_query_ids || [],
+    quietHours: row.quiet_hours_start && row.quiet_hours_end
+      ? { start: row.quiet_hours_start, end: row.quiet_hours_end }
+      : null,
+    timezone: row.timezone,
+    minBatchSize: row.min_batch_size,
+    delivery: row.delivery,
+    digestTime: row.digest_time
+  };
+}
+
+function toRow(userId: string, preferences: NotificationPreferences): DbNotificationPreference {
+  return {
+    user_id: userId,
+    push_enabled: preferences.channels.push,
+    telegram_enabled: preferences.channels.telegram,
+    muted_query_ids: preferences.mutedQueryIds,
+    quiet_hours_start: preferences.quietHours?.start ?? null,
+    quiet_hours_end: preferences.quietHours?.end ?? null,
+    timezone: preferences.timezone,
+    min_batch_size: preferences.minBatchSize,
+    delivery: preferences.delivery,
+    digest_time: preferences.digestTime
+  };
+}
+
+// Whether anything that decides when held notifications go out has changed
+function scheduleChanged(current: NotificationPreferences, next: NotificationPreferences): boolean {
+  return current.quietHours?.start !== next.quietHours?.start
+    || current.quietHours?.end !== next.quietHours?.end
+    || current.timezone !== next.timezone
+    || current.delivery !== next.delivery
+    || current.digestTime !== next.digestTime;
+}
+
+export class NotificationPreferenceService {
+  constructor(
+    private preferenceRepo: NotificationPreferenceRepository = new NotificationPreferenceRepository(),
+    private userRepo: UserRepository = new UserRepository(),
+    private queryRepo: QueryRepository = new QueryRepository(),
+    private pendingRepo: PendingNotificationRepository = new PendingNotificationRepository()
+  ) {}
+
+  /** The user's preferences, or the defaults for anything they haven't set */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const [row, user] = await Promise.all([
+      this.preferenceRepo.findByUserId(userId),
+      this.userRepo.findById(userId)
+    ]);
+    return toPreferences(row, user?.email_digest ?? false);
+  }
+
+  async updatePreferences(userId: string, update: NotificationPreferencesRequest): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+
+    if (update.mutedQueryIds) {
+      const owned = new Set((await this.queryRepo.findByUserId(userId)).map(query => query.id));
+      const unknown = update.mutedQueryIds.find(id => !owned.has(id));
+      if (unknown) {
+        throw notFound(ErrorCodes.QUERY_NOT_FOUND, `Query not found: ${unknown}`);
+      }
+    }
+
+    const next: NotificationPreferences = {
+      channels: {
+        push: update.channels?.push ?? current.channels.push,
+        email: update.channels?.email ?? current.channels.email,
+        telegram: update.channels?.telegram ?? current.channels.telegram
+      },
+      mutedQueryIds: update.mutedQueryIds ? [...new Set(update.mutedQueryIds)] : current.mutedQueryIds,
+      quietHours: update.quietHours !== undefined ? update.quietHours : current.quietHours,
+      timezone: update.timezone ?? current.timezone,
+      minBatchSize: update.minBatchSize ?? current.minBatchSize,
+      delivery: update.delivery ?? current.delivery,
+      digestTime: update.digestTime ?? current.digestTime
+    };
+
+    await this.preferenceRepo.upsert(toRow(userId, next));
+    if (next.channels.email !== current.channels.email) {
+      await this.userRepo.setEmailDigest(userId, next.channels.email);
+    }
+
+    // Anything held for a later time was scheduled under the old settings - work the time
+    // out again, which makes it due now if quiet hours and digest no longer hold it
+    if (scheduleChanged(current, next)) {
+      const now = new Date();
+      for (const kind of ['new_listings', 'alert'] as const) {
+        await this.pendingRepo.rescheduleWaiting(userId, kind, heldDeliveryTime(next, kind, now));
+      }
+    }
+    return next;
+  }
+}
@@ -0,0 +1,121 @@
+import { PropertyRepository } from '../repositories/propertyRepository';
+import { PriceHistoryRepository } from '../repositories/priceHistoryRepository';
+import { PropertyListItem, SearchChannel } from '../types';
+import { displayPriceFor, priceAmountFor, StructuredPrice, structuredPriceFor } from '../utils/price';
+
+/** Amounts are the tracked amount - monthly rent for lettings, asking price for sales */
+export interface PriceChange {
+  propertyId: string;
+  rightmoveId: number;
+  oldPrice: string;
+  newPrice: string;
+  oldAmount: number;
+  newAmount: number;
+}
+
+export interface PriceDrop {
+  propertyId: string;
+  address: string;
+  oldPrice: string;
+  newPrice: string;
+}
+
+/** Drops to push to one user */
+export interface PriceDropAlert {
+  userId: string;
+  drops: PriceDrop[];
+}
+
+export class PriceTrackingService {
+  constructor(
+    private propertyRepo: PropertyRepository = new PropertyRepository(),
+    private historyRepo: PriceHistoryRepository = new PriceHistoryRepository()
+  ) {}
+
+  /**
+   * Compare search results against the prices we hold for listings we already
+   * know. Changed prices are updated on the property and written to its history.
+   * Listings we haven't saved yet are ignored.
+   */
+  async recordPrices(listings: PropertyListItem[], channel: SearchChannel): Promise<PriceChange[]> {
+    const seen = new Map<number, { price: string; amount: number; structured: StructuredPrice }>();
+    for (const listing of listings) {
+      const amount = priceAmountFor(listing, channel);
+      if (amount !== null) {
+        seen.set(listing.identifier, {
+          price: displayPriceFor(listing, channel),
+          amount,
+          structured: structuredPriceFor(listing, channel)
+        });
+      }
+    }
+    if (seen.size === 0) return [];
+
+    const known = await this.propertyRepo.findPricesByRightmoveIds([...seen.keys()]);
+    const changes: PriceChange[] = [];
+
+    for (const row of known) {
+      const current = seen.get(row.rightmove_id);
+      const previousAmount = row.price_monthly ?? row.price_amount ?? null;
+      if (!current || previousAmount === current.amount) continue;
+
+      const updated = await this.propertyRepo.updatePrice(row.id!, { price: current.price, ...current.structured }, row);
+
+      // Saved before prices were tracked (that's its baseline, not a change), or
+      // another process got there first and recorded it
+      if (previousAmount === null || !updated) continue;
+
+      changes.push({
+        propertyId: row.id!,
+        rightmoveId: row.rightmove_id,
+        oldPrice: row.price,
+        newPrice: current.price,
+        oldAmount: previousAmount,
+        newAmount: current.amount
+      });
+    }
+
+    await this.historyRepo.insert(changes.map(change => ({
+      property_id: change.propertyId,
+      rightmove_id: change.rightmoveId,
+      old_price: change.oldPrice,
+      new_price: change.newPrice,
+      old_amount: change.oldAmount,
+      new_amount: change.newAmount,
+      change_amount: change.newAmount - change.oldAmount
+    })));
+
+    return changes;
+  }
+
+  /**
+   * Claim every drop not yet alerted and group them by interested user.
+   * Claimed drops aren't returned again, whether or not the push succeeds.
+   */
+  async claimPriceDropAlerts(): Promise<PriceDropAlert[]> {
+    const rows = await this.historyRepo.claimPendingDrops();
+    if (rows.length === 0) return [];
+
+    // A listing can drop more than once between alerts - report the overall change
+    const drops = new Map<string, PriceDrop>();
+    const ordered = [...rows].sort((a, b) => (a.recorded_at || '').localeCompare(b.recorded_at || ''));
+    for (const row of ordered) {
+      const existing = drops.get(row.property_id);
+      drops.set(row.property_id, {
+        propertyId: row.property_id,
+        address: row.property?.address || 'A property you follow',
+        oldPrice: existing?.oldPrice ?? row.old_price,
+        newPrice: row.new_price
+      });
+    }
+
+    const interested = await this.historyRepo.findInterestedUsers([...drops.keys()]);
+    const alerts = new Map<string, PriceDrop[]>();
+    for (const { user_id, property_id } of interested) {
+      if (!alerts.has(user_id)) alerts.set(user_id, []);
+      alerts.get(user_id)!.push(drops.get(property_id)!);
+    }
+
+    return [...alerts].map(([userId, userDrops]) => ({ userId, drops: userDrops }));
+  }
+}
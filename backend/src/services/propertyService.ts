@@ -2,6 +2,7 @@ import { PropertyRepository } from '../repositories/propertyRepository';
 import { UserPropertyActionRepository } from '../repositories/userPropertyActionRepository';
 import { Property } from '../schemas';
 import { badRequest, notFound, ErrorCodes } from '../utils/errors';
+import { parsePriceText } from '../utils/price';
 
 export class PropertyService {
   constructor(
@@ -17,8 +18,10 @@ export class PropertyService {
 
     const { id: propertyUUID } = await this.propertyRepo.upsert({
       rightmove_id: rightmoveId,
+      channel: property.channel,
       images: property.images,
       price: property.price,
+      ...parsePriceText(property.price, property.channel),
       bedrooms: property.bedrooms,
       bathrooms: property.bathrooms,
       address: property.address,
@@ -93,6 +96,15 @@ export class PropertyService {
       throw notFound(ErrorCodes.PROPERTY_NOT_FOUND, 'Property not found');
     }
 
+    // Actions can be changed (e.g. tapping Save then Pass on a Telegram message)
+    const existingAction = await this.actionRepo.findAction(userId, property.id);
+    if (existingAction) {
+      if (existingAction.action !== action) {
+        await this.actionRepo.updateAction(userId, property.id, action);
+      }
+      return { success: true };
+    }
+
     await this.actionRepo.insertAction(userId, property.id, action);
     return { success: true };
   }
@@ -100,6 +112,7 @@ export class PropertyService {
   private mapRowToProperty(row: any): Property {
     return {
       id: String(row.rightmove_id),
+      channel: row.channel || 'RENT',
       images: row.images || [],
       price: row.price,
       bedrooms: row.bedrooms,
@@ -112,6 +125,8 @@ export class PropertyService {
       branch_name: row.branch_name || null,
       latitude: row.latitude || null,
       longitude: row.longitude || null,
+      listing_status: row.listing_status || 'available',
+      status_changed_at: row.status_changed_at || null,
     };
   }
 }
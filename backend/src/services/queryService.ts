@@ -1,9 +1,17 @@
 import { QueryRepository } from '../repositories/queryRepository';
-import { DbQuery } from '../types/database';
-import { CreateQueryRequest, UpdateQueryRequest } from '../schemas';
+import { MonitorRunRepository } from '../repositories/monitorRunRepository';
+import { DbQuery, DbMonitorQueryResult } from '../types/database';
+import { CreateQueryRequest, UpdateQueryRequest, hasQueryLocation, LOCATION_REQUIRED } from '../schemas';
+import { badRequest, notFound, ErrorCodes } from '../utils/errors';
+
+const DEFAULT_RUNS_LIMIT = 20;
+const MAX_RUNS_LIMIT = 100;
 
 export class QueryService {
-  constructor(private queryRepo: QueryRepository = new QueryRepository()) {}
+  constructor(
+    private queryRepo: QueryRepository = new QueryRepository(),
+    private runRepo: MonitorRunRepository = new MonitorRunRepository()
+  ) {}
 
   async getQueries(userId: string): Promise<DbQuery[]> {
     return this.queryRepo.findByUserId(userId);
@@ -14,10 +22,44 @@ export class QueryService {
   }
 
   async updateQuery(userId: string, queryId: string, data: UpdateQueryRequest): Promise<{ success: boolean }> {
-    await this.queryRepo.update(queryId, userId, data);
+    // Clearing one location is fine while the query has the other - check the row as it would be saved
+    if (data.latitude !== undefined || data.longitude !== undefined || data.location_identifier !== undefined) {
+      const existing = await this.queryRepo.findById(queryId, userId);
+      if (existing && !hasQueryLocation({ ...existing, ...data })) {
+        throw badRequest(ErrorCodes.INVALID_REQUEST_BODY, LOCATION_REQUIRED);
+      }
+    }
+
+    const updated = await this.queryRepo.update(queryId, userId, data);
+
+    // Listings rejected under the old filters may match the new ones
+    if (updated && (data.include_keywords !== undefined || data.exclude_keywords !== undefined || data.must_have !== undefined)) {
+      await this.queryRepo.clearExcludedListings(queryId);
+    }
+
     return { success: true };
   }
 
+  /**
+   * Recent monitor results for one of the user's queries, newest first
+   */
+  async getQueryRuns(userId: string, queryId: string, limit = DEFAULT_RUNS_LIMIT): Promise<{
+    last_checked: string | null;
+    runs: DbMonitorQueryResult[];
+  }> {
+    const query = await this.queryRepo.findById(queryId, userId);
+    if (!query) {
+      throw notFound(ErrorCodes.QUERY_NOT_FOUND, 'Query not found');
+    }
+
+    const runs = await this.runRepo.findQueryResults(queryId, Math.min(Math.max(limit, 1), MAX_RUNS_LIMIT));
+
+    return {
+      last_checked: runs[0]?.finished_at ?? null,
+      runs,
+    };
+  }
+
   async deleteQuery(userId: string, queryId: string): Promise<{ success: boolean }> {
     await this.queryRepo.delete(queryId, userId);
     return { success: true };
@@ -1,12 +1,17 @@
-import { RightmoveAPI } from '../api';
+import { RightmoveAPI, RightmoveNotFoundError } from '../api';
 import { PropertyRepository } from '../repositories/propertyRepository';
-import { PropertySearchParams, PropertyWithDetails } from '../types';
+import { PriceTrackingService } from './priceTrackingService';
+import { PropertyListItem, PropertySearchParams, PropertyWithDetails, SearchArea, SearchChannel } from '../types';
 import { SearchRequest, OnboardingSearchRequest, Property } from '../schemas';
+import { notFound, ErrorCodes } from '../utils/errors';
+import { depositFor, displayPriceFor, formatPrice, structuredPriceFor } from '../utils/price';
+import { boundingBox, pointInArea } from '../utils/geo';
 
 export class SearchService {
   constructor(
     private api: RightmoveAPI = new RightmoveAPI(),
-    private propertyRepo: PropertyRepository = new PropertyRepository()
+    private propertyRepo: PropertyRepository = new PropertyRepository(),
+    private priceTracking: PriceTrackingService = new PriceTrackingService()
   ) {}
 
   async searchProperties(body: SearchRequest): Promise<{
@@ -17,9 +22,11 @@ export class SearchService {
   }> {
     const params = this.buildSearchParams(body);
     const results = await this.api.searchProperties(params);
+    await this.trackPrices(results.properties, params.channel || 'RENT');
 
+    // total and hasMore describe the area's bounding box, not the drawn shape
     return {
-      properties: results.properties,
+      properties: this.filterToArea(results.properties, body.area),
       total: results.total,
       hasMore: results.hasMore,
       page: results.page,
@@ -33,18 +40,22 @@ export class SearchService {
   }> {
     const params = this.buildSearchParams(body);
     params.page = 1;
+    const channel = params.channel || 'RENT';
 
     const results = await this.api.searchProperties(params);
-    if (results.properties.length === 0) {
+    // Before saving below, which would overwrite the stored prices
+    await this.trackPrices(results.properties, channel);
+    const properties = this.filterToArea(results.properties, body.area);
+    if (properties.length === 0) {
       return { properties: [], total: 0, saved: 0 };
     }
 
     // Fetch HD details for top 10 properties
-    const maxToProcess = Math.min(results.properties.length, 10);
+    const maxToProcess = Math.min(properties.length, 10);
     const propertiesWithDetails: PropertyWithDetails[] = [];
 
     for (let i = 0; i < maxToProcess; i++) {
-      const property = results.properties[i];
+      const property = properties[i];
       try {
         const details = await this.api.getPropertyDetails(property.identifier);
         const p = details.property;
@@ -53,9 +64,8 @@ export class SearchService {
           ...property,
           bathrooms: parseInt(p.analyticsInfo?.bathrooms || '0', 10),
           hdImages: p.photos?.map((photo: any) => photo.maxSizeUrl) || [],
+          letBond: p.letBond ?? null,
         });
-
-        await new Promise(resolve => setTimeout(resolve, 100));
       } catch {
         propertiesWithDetails.push({
           ...property,
@@ -69,7 +79,7 @@ export class SearchService {
     let savedCount = 0;
     for (const prop of propertiesWithDetails) {
       try {
-        const dbProperty = this.mapToDbProperty(prop);
+        const dbProperty = this.mapToDbProperty(prop, channel);
         await this.propertyRepo.upsertAndLinkToQuery(body.queryId, dbProperty);
         savedCount++;
       } catch (error) {
@@ -83,7 +93,8 @@ export class SearchService {
       images: p.hdImages && p.hdImages.length > 0
         ? p.hdImages.slice(0, 10)
         : p.thumbnailPhotos?.map((photo: any) => photo.url) || [],
-      price: p.displayPrices?.[0]?.displayPrice || `£${p.monthlyRent} pcm`,
+      price: displayPriceFor(p, channel),
+      channel,
       bedrooms: p.bedrooms || 0,
       bathrooms: p.bathrooms || 0,
       address: p.address,
@@ -104,15 +115,26 @@ export class SearchService {
   }
 
   async getPropertyDetails(propertyId: string): Promise<any> {
-    const response = await this.api.getPropertyDetails(propertyId);
+    let response;
+    try {
+      response = await this.api.getPropertyDetails(propertyId);
+    } catch (error) {
+      if (error instanceof RightmoveNotFoundError) {
+        throw notFound(ErrorCodes.PROPERTY_NOT_FOUND, 'Property is no longer listed');
+      }
+      throw error;
+    }
     const p = response.property;
+    // Lettings always carry a let type; sales listings don't
+    const channel = p.letType ? 'RENT' : 'BUY';
 
     return {
       id: p.identifier,
       bedrooms: p.bedrooms,
       bathrooms: parseInt(p.analyticsInfo?.bathrooms || '0', 10),
       address: p.address,
-      price: p.displayPrices?.[0]?.displayPrice || `£${p.price} pcm`,
+      price: p.displayPrices?.[0]?.displayPrice || formatPrice(p.price, channel),
+      channel,
       description: p.fullDescription || p.summary,
       propertyType: p.propertySubtype || p.analyticsInfo?.propertySubType,
       furnishType: p.letFurnishType,
@@ -137,9 +159,13 @@ export class SearchService {
     if (body.furnishType === 'furnished') furnishType = 'furnished';
     else if (body.furnishType === 'unfurnished') furnishType = 'unfurnished';
 
+    const channel = body.channel || 'RENT';
+
     return {
+      channel,
       latitude: body.latitude,
       longitude: body.longitude,
+      locationIdentifier: body.locationIdentifier,
       minPrice: body.minPrice,
       maxPrice: body.maxPrice,
       minBedrooms: body.minBedrooms,
@@ -147,13 +173,34 @@ export class SearchService {
       minBathrooms: body.minBathrooms,
       maxBathrooms: body.maxBathrooms,
       radius: body.radius,
-      furnishType,
+      bounds: body.area ? boundingBox(body.area) : undefined,
+      furnishType: channel === 'RENT' ? furnishType : undefined,
+      tenureTypes: channel === 'BUY' ? body.tenureTypes : undefined,
+      newBuild: channel === 'BUY' ? body.newBuild : undefined,
+      excludeRetirement: channel === 'BUY' ? body.excludeRetirement : undefined,
+      excludeSharedOwnership: channel === 'BUY' ? body.excludeSharedOwnership : undefined,
+      propertyTypes: body.propertyTypes,
+      sortBy: body.sortBy,
       page: body.page || 1,
       pageSize: 25,
     };
   }
 
-  private mapToDbProperty(property: PropertyWithDetails) {
+  // Record price changes on listings we already hold - a failure never fails the search
+  private async trackPrices(properties: PropertyListItem[], channel: SearchChannel): Promise<void> {
+    try {
+      await this.priceTracking.recordPrices(properties, channel);
+    } catch (error) {
+      console.warn('Failed to record price changes:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private filterToArea(properties: PropertyListItem[], area?: SearchArea): PropertyListItem[] {
+    if (!area) return properties;
+    return properties.filter(p => pointInArea(p.latitude, p.longitude, area));
+  }
+
+  private mapToDbProperty(property: PropertyWithDetails, channel: SearchChannel) {
     const addressParts = property.address.split(',');
     const area = addressParts.length > 1 ? addressParts[addressParts.length - 1].trim() : undefined;
 
@@ -163,8 +210,11 @@ export class SearchService {
 
     return {
       rightmove_id: property.identifier,
+      channel,
       images: allImages.slice(0, 10),
-      price: property.displayPrices?.[0]?.displayPrice || `£${property.monthlyRent} pcm`,
+      price: displayPriceFor(property, channel),
+      ...structuredPriceFor(property, channel),
+      deposit: depositFor(property),
       bedrooms: property.bedrooms || 0,
       bathrooms: property.bathrooms || 0,
       address: property.address,
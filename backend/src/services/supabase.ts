@@ -4,7 +4,8 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { DbProperty, DbQuery, PropertyListItem, PropertyWithDetails } from '../types';
+import { DbProperty, DbQuery, PropertyListItem, PropertyWithDetails, SearchChannel } from '../types';
+import { depositFor, displayPriceFor, structuredPriceFor } from '../utils/price';
 
 export class SupabaseService {
   private client: SupabaseClient;
@@ -34,14 +35,16 @@ export class SupabaseService {
   /**
    * Convert API property (list item) to database format
    */
-  private mapListItemToDb(property: PropertyListItem): DbProperty {
+  private mapListItemToDb(property: PropertyListItem, channel: SearchChannel = 'RENT'): DbProperty {
     const addressParts = property.address.split(',');
     const area = addressParts.length > 1 ? addressParts[addressParts.length - 1].trim() : undefined;
 
     return {
       rightmove_id: property.identifier,
+      channel,
       images: property.thumbnailPhotos?.map(p => p.url) || [],
-      price: property.displayPrices?.[0]?.displayPrice || `£${property.monthlyRent} pcm`,
+      price: displayPriceFor(property, channel),
+      ...structuredPriceFor(property, channel),
       bedrooms: property.bedrooms || 0,
       bathrooms: 0,
       address: property.address,
@@ -58,7 +61,7 @@ export class SupabaseService {
   /**
    * Convert API property with details to database format
    */
-  private mapPropertyToDb(property: PropertyWithDetails): DbProperty {
+  private mapPropertyToDb(property: PropertyWithDetails, channel: SearchChannel = 'RENT'): DbProperty {
     const addressParts = property.address.split(',');
     const area = addressParts.length > 1 ? addressParts[addressParts.length - 1].trim() : undefined;
 
@@ -71,8 +74,11 @@ export class SupabaseService {
 
     return {
       rightmove_id: property.identifier,
+      channel,
       images,
-      price: property.displayPrices?.[0]?.displayPrice || `£${property.monthlyRent} pcm`,
+      price: displayPriceFor(property, channel),
+      ...structuredPriceFor(property, channel),
+      deposit: depositFor(property),
       bedrooms: property.bedrooms || 0,
       bathrooms: property.bathrooms || 0,
       address: property.address,
@@ -89,9 +95,9 @@ export class SupabaseService {
   /**
    * Upsert a property (insert or update if exists)
    */
-  async upsertProperty(property: PropertyWithDetails): Promise<{ success: boolean; property?: DbProperty; error?: string }> {
+  async upsertProperty(property: PropertyWithDetails, channel: SearchChannel = 'RENT'): Promise<{ success: boolean; property?: DbProperty; error?: string }> {
     try {
-      const dbProperty = this.mapPropertyToDb(property);
+      const dbProperty = this.mapPropertyToDb(property, channel);
 
       const { data, error } = await this.client
         .from('property')
@@ -175,29 +181,47 @@ export class SupabaseService {
     }
   }
 
+  /**
+   * Record when a query last finished a check, for its schedule (see utils/schedule)
+   */
+  async markQueryChecked(queryId: string, checkedAt: Date): Promise<void> {
+    try {
+      const { error } = await this.client
+        .from('query')
+        .update({ last_checked_at: checkedAt.toISOString() })
+        .eq('id', queryId);
+
+      if (error) {
+        console.error('Error marking query checked:', error);
+      }
+    } catch (error) {
+      console.error('Exception marking query checked:', error);
+    }
+  }
+
   // ===========================================
   // Query-Property Link Operations
   // ===========================================
 
   /**
-   * Check if property is already linked to a query
+   * Which of these Rightmove IDs are already linked to the query - one round trip
+   * for the whole page, joining property to query_property.
+   * Throws on failure: treating everything as new would re-save and re-notify.
    */
-  async isPropertyLinkedToQuery(queryId: string, rightmoveId: number): Promise<boolean> {
-    try {
-      const propertyId = await this.getPropertyIdByRightmoveId(rightmoveId);
-      if (!propertyId) return false;
+  async getLinkedRightmoveIds(queryId: string, rightmoveIds: number[]): Promise<Set<number>> {
+    if (rightmoveIds.length === 0) return new Set();
 
-      const { data, error } = await this.client
-        .from('query_property')
-        .select('id')
-        .eq('query_id', queryId)
-        .eq('property_id', propertyId)
-        .single();
+    const { data, error } = await this.client
+      .from('property')
+      .select('rightmove_id, query_property!inner(query_id)')
+      .in('rightmove_id', rightmoveIds)
+      .eq('query_property.query_id', queryId);
 
-      return !error && data !== null;
-    } catch {
-      return false;
+    if (error) {
+      throw new Error(`Failed to look up linked properties: ${error.message}`);
     }
+
+    return new Set((data || []).map(row => row.rightmove_id));
   }
 
   /**
@@ -229,18 +253,74 @@ export class SupabaseService {
 
   /**
    * Filter properties to only include new ones for a query
+   * (not yet linked, and not previously excluded by its filters)
    */
   async getNewPropertiesForQuery(query: DbQuery, properties: PropertyListItem[]): Promise<PropertyListItem[]> {
-    const newProperties: PropertyListItem[] = [];
+    if (properties.length === 0) return [];
 
-    for (const property of properties) {
-      const isAlreadyLinked = await this.isPropertyLinkedToQuery(query.id!, property.identifier);
-      if (!isAlreadyLinked) {
-        newProperties.push(property);
+    const rightmoveIds = properties.map(p => p.identifier);
+    const [linkedIds, excludedIds] = await Promise.all([
+      this.getLinkedRightmoveIds(query.id!, rightmoveIds),
+      this.getExcludedListingIds(query.id!, rightmoveIds)
+    ]);
+
+    return properties.filter(p => !linkedIds.has(p.identifier) && !excludedIds.has(p.identifier));
+  }
+
+  // ===========================================
+  // Excluded Listing Operations
+  // ===========================================
+
+  /**
+   * Which of these Rightmove IDs failed this query's keyword/must-have filters on an earlier run
+   */
+  async getExcludedListingIds(queryId: string, rightmoveIds: number[]): Promise<Set<number>> {
+    try {
+      const { data, error } = await this.client
+        .from('query_excluded_listing')
+        .select('rightmove_id')
+        .eq('query_id', queryId)
+        .in('rightmove_id', rightmoveIds);
+
+      if (error) {
+        console.error('Error fetching excluded listings:', error);
+        return new Set();
       }
+
+      return new Set((data || []).map(row => row.rightmove_id));
+    } catch (error) {
+      console.error('Exception fetching excluded listings:', error);
+      return new Set();
     }
+  }
+
+  /**
+   * Remember listings that failed the query's filters so later runs don't re-fetch them
+   */
+  async recordExcludedListings(
+    queryId: string,
+    listings: { rightmoveId: number; reason: string }[]
+  ): Promise<{ success: boolean; error?: string }> {
+    if (listings.length === 0) return { success: true };
 
-    return newProperties;
+    try {
+      const { error } = await this.client
+        .from('query_excluded_listing')
+        .upsert(
+          listings.map(l => ({ query_id: queryId, rightmove_id: l.rightmoveId, reason: l.reason })),
+          { onConflict: 'query_id,rightmove_id', ignoreDuplicates: true }
+        );
+
+      if (error) {
+        console.error('Error recording excluded listings:', error);
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Exception recording excluded listings:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
   }
 
   /**
@@ -249,19 +329,20 @@ export class SupabaseService {
   async processPropertiesWithDetails(
     query: DbQuery,
     properties: PropertyWithDetails[]
-  ): Promise<{ success: boolean; newCount: number; errors: string[] }> {
+  ): Promise<{ success: boolean; newCount: number; linkedIds: number[]; errors: string[] }> {
     const errors: string[] = [];
+    const linkedIds: number[] = [];
     let newCount = 0;
 
     if (properties.length === 0) {
-      return { success: true, newCount: 0, errors: [] };
+      return { success: true, newCount: 0, linkedIds, errors: [] };
     }
 
     console.log(`    💾 Saving ${properties.length} new properties to database...`);
 
     for (const property of properties) {
       try {
-        const propertyResult = await this.upsertProperty(property);
+        const propertyResult = await this.upsertProperty(property, query.channel || 'RENT');
         if (!propertyResult.success) {
           errors.push(`Failed to save property ${property.identifier}: ${propertyResult.error}`);
           continue;
@@ -270,6 +351,7 @@ export class SupabaseService {
         const linkResult = await this.linkPropertyToQuery(query.id!, propertyResult.property!.id!);
         if (linkResult.success) {
           newCount++;
+          linkedIds.push(property.identifier);
           console.log(`    ✅ Saved property ${property.identifier} (${property.address})`);
         } else {
           errors.push(`Failed to link property ${property.identifier} to query: ${linkResult.error}`);
@@ -282,6 +364,7 @@ export class SupabaseService {
     return {
       success: errors.length === 0,
       newCount,
+      linkedIds,
       errors
     };
   }
@@ -304,7 +387,7 @@ export class SupabaseService {
 
     for (const property of properties) {
       try {
-        const propertyResult = await this.upsertProperty(property);
+        const propertyResult = await this.upsertProperty(property, query.channel || 'RENT');
         if (!propertyResult.success) {
           errors.push(`Failed to save property ${property.identifier}: ${propertyResult.error}`);
           continue;
@@ -0,0 +1,228 @@
+import { randomBytes } from 'crypto';
+import config from '../config';
+import { TelegramRepository } from '../repositories/telegramRepository';
+import {
+  TelegramApiError,
+  TelegramBotAPI,
+  TelegramCallbackQuery,
+  TelegramListing,
+  TelegramMessage,
+  TelegramUpdate,
+  actionTakenKeyboard,
+  listingCaption,
+  listingKeyboard,
+  parseCallbackData
+} from '../telegram';
+import { ApiError, ErrorCodes } from '../utils/errors';
+import { PropertyService } from './propertyService';
+
+export interface TelegramListingSection {
+  queryName: string;
+  listings: TelegramListing[];
+}
+
+export interface TelegramLinkCode {
+  code: string;
+  /** Opens the bot with /start <code> */
+  url: string;
+  expiresAt: string;
+}
+
+export interface TelegramStatus {
+  enabled: boolean;
+  linked: boolean;
+  username: string | null;
+}
+
+export class TelegramService {
+  constructor(
+    private bot: TelegramBotAPI | null = TelegramBotAPI.fromEnv(),
+    private telegramRepo: TelegramRepository = new TelegramRepository(),
+    private propertyService: PropertyService = new PropertyService()
+  ) {}
+
+  get enabled(): boolean {
+    return this.bot !== null;
+  }
+
+  async getStatus(userId: string): Promise<TelegramStatus> {
+    const chat = await this.telegramRepo.findChat(userId);
+    return { enabled: this.enabled, linked: chat !== null, username: chat?.username ?? null };
+  }
+
+  /**
+   * One-time code for linking a chat: the app opens the returned t.me link and
+   * the bot receives "/start <code>". Creating a new code invalidates the old one.
+   */
+  async createLinkCode(userId: string): Promise<TelegramLinkCode> {
+    if (!this.bot?.username) {
+      throw new ApiError(ErrorCodes.TELEGRAM_NOT_CONFIGURED, 'Telegram is not configured', 503);
+    }
+
+    // Deep-link payloads allow A-Z, a-z, 0-9, _ and - (base64url)
+    const code = randomBytes(12).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.telegramLinkCodeTtl);
+    await this.telegramRepo.createLinkCode(userId, code, expiresAt);
+
+    return {
+      code,
+      url: `https://t.me/${this.bot.username}?start=${code}`,
+      expiresAt: expiresAt.toISOString()
+    };
+  }
+
+  async unlink(userId: string): Promise<void> {
+    const chat = await this.telegramRepo.findChat(userId);
+    if (!chat) return;
+
+    await this.telegramRepo.unlinkUser(userId);
+    await this.notify(chat.chatId, 'This chat has been unlinked from Ijar.');
+  }
+
+  /** Handle one update from the webhook or the polling bot */
+  async handleUpdate(update: TelegramUpdate): Promise<void> {
+    if (!this.bot) return;
+
+    if (update.callback_query) {
+      await this.handleCallback(update.callback_query);
+    } else if (update.message?.text && update.message.chat.type === 'private') {
+      await this.handleCommand(update.message);
+    }
+  }
+
+  private async handleCommand(message: TelegramMessage): Promise<void> {
+    const [command, argument] = message.text!.trim().split(/\s+/, 2);
+    const chatId = message.chat.id;
+
+    switch (command.replace(/@\w+$/, '')) {
+      case '/start': {
+        if (!argument) {
+          await this.notify(chatId, 'To get new listings here, open Ijar and link Telegram from your settings.');
+          return;
+        }
+
+        const userId = await this.telegramRepo.consumeLinkCode(argument);
+        if (!userId) {
+          await this.notify(chatId, 'That link has expired or was already used. Create a new one in the Ijar app.');
+          return;
+        }
+
+        await this.telegramRepo.linkChat(userId, { chatId, username: message.from?.username ?? null });
+        console.log(`🔗 Linked Telegram chat for user ${userId}`);
+        await this.notify(chatId, '✅ Linked! New listings from your searches will arrive here. Send /stop to unlink.');
+        return;
+      }
+
+      case '/stop':
+        await this.telegramRepo.unlinkChat(chatId);
+        await this.notify(chatId, 'Unlinked - you won\'t get any more listings here.');
+        return;
+
+      default:
+        await this.notify(chatId, 'Tap Save or Pass on a listing, or send /stop to unlink this chat.');
+    }
+  }
+
+  /** Save/Pass tapped on a listing: record it as if it was swiped in the app */
+  private async handleCallback(query: TelegramCallbackQuery): Promise<void> {
+    const bot = this.bot!;
+    const parsed = parseCallbackData(query.data);
+    const chatId = query.message?.chat.id ?? query.from.id;
+
+    if (!parsed) {
+      await bot.answerCallbackQuery(query.id);
+      return;
+    }
+
+    const userId = await this.telegramRepo.findUserIdByChat(chatId);
+    if (!userId) {
+      await bot.answerCallbackQuery(query.id, 'This chat is no longer linked to Ijar');
+      return;
+    }
+
+    try {
+      await this.propertyService.trackAction(userId, parsed.rightmoveId, parsed.action);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        await bot.answerCallbackQuery(query.id, 'This listing is no longer available');
+        return;
+      }
+      throw error;
+    }
+
+    await bot.answerCallbackQuery(query.id, parsed.action === 'saved' ? '❤️ Saved' : '👎 Passed');
+
+    if (query.message) {
+      // Fails with "message is not modified" when the same button is tapped twice
+      await bot
+        .editMessageReplyMarkup(chatId, query.message.message_id, actionTakenKeyboard(parsed.action, parsed.rightmoveId))
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Send new listings to the user's linked chat, one message each with Save/Pass
+   * buttons, up to telegramMaxListingsPerRun. Returns the number of listings sent
+   * (0 if the user hasn't linked a chat). A chat that has blocked the bot is unlinked.
+   */
+  async sendNewListings(userId: string, sections: TelegramListingSection[]): Promise<number> {
+    if (!this.bot) return 0;
+
+    const listings = sections.flatMap(section =>
+      section.listings.map(listing => ({ listing, queryName: section.queryName }))
+    );
+    if (listings.length === 0) return 0;
+
+    const chat = await this.telegramRepo.findChat(userId);
+    if (!chat) return 0;
+
+    const toSend = listings.slice(0, config.telegramMaxListingsPerRun);
+    let sent = 0;
+
+    try {
+      for (const { listing, queryName } of toSend) {
+        await this.sendListing(chat.chatId, listing, queryName);
+        sent++;
+      }
+
+      const remaining = listings.length - toSend.length;
+      if (remaining > 0) {
+        await this.bot.sendMessage(chat.chatId, `…and ${remaining} more new listing${remaining === 1 ? '' : 's'}. Open Ijar to see them all.`);
+      }
+    } catch (error) {
+      if (error instanceof TelegramApiError && error.chatGone) {
+        console.log(`🔕 Telegram chat for user ${userId} is gone (${error.message}) - unlinking`);
+        await this.telegramRepo.unlinkChat(chat.chatId);
+        return sent;
+      }
+      throw error;
+    }
+
+    return sent;
+  }
+
+  private async sendListing(chatId: number, listing: TelegramListing, queryName: string): Promise<void> {
+    const bot = this.bot!;
+    const caption = listingCaption(listing, queryName);
+    const keyboard = listingKeyboard(listing);
+
+    if (listing.image) {
+      try {
+        await bot.sendPhoto(chatId, listing.image, caption, keyboard);
+        return;
+      } catch (error) {
+        // Telegram couldn't fetch the photo - fall back to text
+        if (!(error instanceof TelegramApiError) || error.chatGone || error.code !== 400) throw error;
+      }
+    }
+
+    await bot.sendMessage(chatId, caption, keyboard);
+  }
+
+  /** Best-effort reply to a command - the user may have blocked the bot since */
+  private async notify(chatId: number, text: string): Promise<void> {
+    await this.bot?.sendMessage(chatId, text).catch((error) => {
+      console.error('Failed to send Telegram message:', error instanceof Error ? error.message : error);
+    });
+  }
+}
@@ -2,6 +2,8 @@ import { UserRepository } from '../repositories/userRepository';
 import { DbUser } from '../schemas/userSchemas'; // DB row type stays in schema file
 import { notFound, ErrorCodes } from '../utils/errors';
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export class UserService {
   constructor(private userRepo: UserRepository = new UserRepository()) {}
 
@@ -21,4 +23,16 @@ export class UserService {
     await this.userRepo.markOnboardingComplete(userId);
     return { success: true };
   }
+
+  async setEmailDigest(userId: string, enabled: boolean): Promise<{ success: boolean }> {
+    await this.userRepo.setEmailDigest(userId, enabled);
+    return { success: true };
+  }
+
+  async unsubscribeEmail(token: string): Promise<{ success: boolean }> {
+    if (!UUID_PATTERN.test(token) || !(await this.userRepo.unsubscribeEmail(token))) {
+      throw notFound(ErrorCodes.UNSUBSCRIBE_LINK_NOT_FOUND, 'This unsubscribe link is invalid');
+    }
+    return { success: true };
+  }
 }
@@ -0,0 +1,162 @@
+/**
+ * Telegram Bot API
+ * Thin client over https://api.telegram.org/bot<token>/<method> - just the
+ * calls the Telegram channel needs. Messages use HTML parse mode.
+ */
+
+const MAX_RETRY_AFTER_SECONDS = 30;
+
+export interface TelegramUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: string;
+  username?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: TelegramChat;
+  from?: TelegramUser;
+  text?: string;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export type InlineKeyboard = InlineKeyboardButton[][];
+
+export class TelegramApiError extends Error {
+  constructor(message: string, public code: number) {
+    super(message);
+    this.name = 'TelegramApiError';
+  }
+
+  /** The user blocked the bot or deleted the chat - stop sending to it */
+  get chatGone(): boolean {
+    return this.code === 403 || (this.code === 400 && /chat not found/i.test(this.message));
+  }
+}
+
+export class TelegramBotAPI {
+  constructor(
+    private token: string,
+    /** Bot username without the @, for t.me links */
+    readonly username: string | null = null,
+    private baseUrl = 'https://api.telegram.org'
+  ) {}
+
+  /** Client from TELEGRAM_BOT_TOKEN / TELEGRAM_BOT_USERNAME, or null if no token is set */
+  static fromEnv(): TelegramBotAPI | null {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) return null;
+    return new TelegramBotAPI(token, process.env.TELEGRAM_BOT_USERNAME?.replace(/^@/, '') || null);
+  }
+
+  private async call<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    signal?: AbortSignal,
+    retried = false
+  ): Promise<T> {
+    const response = await fetch(`${this.baseUrl}/bot${this.token}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal
+    });
+
+    const body = await response.json().catch(() => null) as {
+      ok: boolean;
+      result?: T;
+      description?: string;
+      error_code?: number;
+      parameters?: { retry_after?: number };
+    } | null;
+
+    // Flood control: wait it out once if it's short, otherwise fail
+    const retryAfter = body?.parameters?.retry_after;
+    if (body?.error_code === 429 && retryAfter && retryAfter <= MAX_RETRY_AFTER_SECONDS && !retried) {
+      await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+      return this.call(method, params, signal, true);
+    }
+
+    if (!body?.ok) {
+      throw new TelegramApiError(body?.description || `${method} failed with HTTP ${response.status}`, body?.error_code ?? response.status);
+    }
+    return body.result as T;
+  }
+
+  sendMessage(chatId: number, text: string, keyboard?: InlineKeyboard): Promise<TelegramMessage> {
+    return this.call('sendMessage', {
+      chat_id: chatId,
+      text,
+      parse_mode: 'HTML',
+      link_preview_options: { is_disabled: true },
+      ...(keyboard ? { reply_markup: { inline_keyboard: keyboard } } : {})
+    });
+  }
+
+  sendPhoto(chatId: number, photoUrl: string, caption: string, keyboard?: InlineKeyboard): Promise<TelegramMessage> {
+    return this.call('sendPhoto', {
+      chat_id: chatId,
+      photo: photoUrl,
+      caption,
+      parse_mode: 'HTML',
+      ...(keyboard ? { reply_markup: { inline_keyboard: keyboard } } : {})
+    });
+  }
+
+  answerCallbackQuery(callbackQueryId: string, text?: string): Promise<boolean> {
+    return this.call('answerCallbackQuery', { callback_query_id: callbackQueryId, ...(text ? { text } : {}) });
+  }
+
+  editMessageReplyMarkup(chatId: number, messageId: number, keyboard: InlineKeyboard): Promise<unknown> {
+    return this.call('editMessageReplyMarkup', {
+      chat_id: chatId,
+      message_id: messageId,
+      reply_markup: { inline_keyboard: keyboard }
+    });
+  }
+
+  /** Long poll for updates (only works while no webhook is set) */
+  getUpdates(offset: number, timeoutSeconds: number, signal?: AbortSignal): Promise<TelegramUpdate[]> {
+    return this.call('getUpdates', {
+      offset,
+      timeout: timeoutSeconds,
+      allowed_updates: ['message', 'callback_query']
+    }, signal);
+  }
+
+  setWebhook(url: string, secretToken: string): Promise<boolean> {
+    return this.call('setWebhook', {
+      url,
+      secret_token: secretToken,
+      allowed_updates: ['message', 'callback_query']
+    });
+  }
+
+  deleteWebhook(): Promise<boolean> {
+    return this.call('deleteWebhook');
+  }
+}
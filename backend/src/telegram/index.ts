@@ -0,0 +1,16 @@
+/**
+ * Telegram Exports
+ */
+
+export { TelegramBotAPI, TelegramApiError } from './botApi';
+export type {
+  TelegramUpdate,
+  TelegramMessage,
+  TelegramCallbackQuery,
+  TelegramUser,
+  TelegramChat,
+  InlineKeyboard,
+  InlineKeyboardButton
+} from './botApi';
+export { listingCaption, listingKeyboard, actionTakenKeyboard, parseCallbackData, escapeHtml } from './messages';
+export type { TelegramListing, ListingAction } from './messages';
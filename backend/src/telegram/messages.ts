@@ -0,0 +1,60 @@
+/**
+ * Telegram Messages
+ * Listing captions, Save/Pass keyboards and callback data for the bot
+ */
+
+import { InlineKeyboard } from './botApi';
+
+export interface TelegramListing {
+  rightmoveId: number;
+  address: string;
+  price: string;
+  bedrooms: number;
+  image: string | null;
+  url: string;
+}
+
+export type ListingAction = 'saved' | 'passed';
+
+// Callback data is limited to 64 bytes: "save:<rightmoveId>" / "pass:<rightmoveId>"
+const CALLBACK_PREFIX: Record<ListingAction, string> = { saved: 'save', passed: 'pass' };
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function parseCallbackData(data: string | undefined): { action: ListingAction; rightmoveId: string } | null {
+  const match = data?.match(/^(save|pass):(\d+)$/);
+  if (!match) return null;
+  return { action: match[1] === 'save' ? 'saved' : 'passed', rightmoveId: match[2] };
+}
+
+export function listingCaption(listing: TelegramListing, queryName: string): string {
+  const bedrooms = listing.bedrooms === 0 ? 'Studio' : `${listing.bedrooms} bed${listing.bedrooms === 1 ? '' : 's'}`;
+  return [
+    `<b>${escapeHtml(listing.price)}</b> · ${bedrooms}`,
+    escapeHtml(listing.address),
+    `<i>${escapeHtml(queryName)}</i>`,
+  ].join('\n');
+}
+
+export function listingKeyboard(listing: TelegramListing): InlineKeyboard {
+  return [
+    [
+      { text: '❤️ Save', callback_data: `${CALLBACK_PREFIX.saved}:${listing.rightmoveId}` },
+      { text: '👎 Pass', callback_data: `${CALLBACK_PREFIX.passed}:${listing.rightmoveId}` },
+    ],
+    [{ text: 'View on Rightmove', url: listing.url }],
+  ];
+}
+
+/** Keyboard once the user has chosen - the choice stays visible and can still be changed */
+export function actionTakenKeyboard(action: ListingAction, rightmoveId: string): InlineKeyboard {
+  return [
+    [
+      { text: action === 'saved' ? '✅ Saved' : '❤️ Save', callback_data: `${CALLBACK_PREFIX.saved}:${rightmoveId}` },
+      { text: action === 'passed' ? '✅ Passed' : '👎 Pass', callback_data: `${CALLBACK_PREFIX.passed}:${rightmoveId}` },
+    ],
+    [{ text: 'View on Rightmove', url: `https://www.rightmove.co.uk/properties/${rightmoveId}` }],
+  ];
+}
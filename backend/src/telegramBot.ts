@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+/**
+ * Telegram Bot
+ * Handles bot updates (/start <code>, /stop, Save/Pass taps) without a public URL,
+ * by long polling - for local development. In production Telegram calls
+ * POST /api/telegram/webhook on the API server instead.
+ *
+ *   npm run telegram-bot                  poll for updates (removes any webhook)
+ *   npm run telegram-bot -- --set-webhook point Telegram at PUBLIC_BASE_URL/api/telegram/webhook
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'util';
+import config from './config';
+import { TelegramService } from './services/telegramService';
+import { TelegramBotAPI } from './telegram';
+
+const POLL_TIMEOUT_SECONDS = 30;
+
+async function setWebhook(bot: TelegramBotAPI): Promise<void> {
+  if (!config.telegramWebhookSecret) {
+    throw new Error('Set TELEGRAM_WEBHOOK_SECRET first - the webhook rejects calls without it');
+  }
+
+  const url = `${config.publicBaseUrl.replace(/\/$/, '')}/api/telegram/webhook`;
+  await bot.setWebhook(url, config.telegramWebhookSecret);
+  console.log(`✅ Webhook set to ${url}`);
+}
+
+async function poll(bot: TelegramBotAPI, service: TelegramService): Promise<void> {
+  await bot.deleteWebhook();
+  console.log(`🤖 Polling for updates${bot.username ? ` to @${bot.username}` : ''} (Ctrl+C to stop)`);
+
+  const stop = new AbortController();
+  process.once('SIGINT', () => stop.abort());
+  process.once('SIGTERM', () => stop.abort());
+
+  let offset = 0;
+  while (!stop.signal.aborted) {
+    let updates;
+    try {
+      updates = await bot.getUpdates(offset, POLL_TIMEOUT_SECONDS, stop.signal);
+    } catch (error) {
+      if (stop.signal.aborted) break;
+      console.error('❌ getUpdates failed:', error instanceof Error ? error.message : error);
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      continue;
+    }
+
+    for (const update of updates) {
+      offset = update.update_id + 1;
+      try {
+        await service.handleUpdate(update);
+      } catch (error) {
+        console.error(`❌ Failed to handle update ${update.update_id}:`, error);
+      }
+    }
+  }
+
+  console.log('👋 Stopped polling');
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: { 'set-webhook': { type: 'boolean', default: false } }
+  });
+
+  const bot = TelegramBotAPI.fromEnv();
+  if (!bot) {
+    console.error('TELEGRAM_BOT_TOKEN is not set');
+    process.exit(1);
+  }
+
+  if (values['set-webhook']) {
+    await setWebhook(bot);
+  } else {
+    await poll(bot, new TelegramService(bot));
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -3,6 +3,9 @@
  * Request/Response types for all API endpoints
  */
 
+import { SearchChannel, TenureType, PropertyTypeFilter, SearchSortBy, SearchArea } from './rightmove';
+import { ListingStatus } from './database';
+
 // =============================================================================
 // Shared Types
 // =============================================================================
@@ -10,6 +13,7 @@
 /** Property data as sent from iOS (snake_case) */
 export interface Property {
   id: string;
+  channel?: SearchChannel;
   images: string[];
   price: string;
   bedrooms: number;
@@ -22,6 +26,8 @@ export interface Property {
   branch_name?: string | null;
   latitude?: number | null;
   longitude?: number | null;
+  listing_status?: ListingStatus;
+  status_changed_at?: string | null;
 }
 
 /** Property group */
@@ -33,6 +39,29 @@ export interface PropertyGroup {
   property_count: number;
 }
 
+/** How new-listing notifications are batched: as they're found, or once a day */
+export type NotificationDelivery = 'instant' | 'digest';
+
+/** A user's notification settings, as returned by GET /api/user/notification-preferences */
+export interface NotificationPreferences {
+  channels: {
+    push: boolean;
+    email: boolean;
+    telegram: boolean;
+  };
+  /** Saved queries whose new listings don't notify (they still appear in the feed) */
+  mutedQueryIds: string[];
+  /** "HH:MM" in timezone; may wrap past midnight. Notifications are held until the end. */
+  quietHours: { start: string; end: string } | null;
+  /** IANA timezone for quiet hours and the digest time */
+  timezone: string;
+  /** Instant delivery waits until at least this many new listings are waiting */
+  minBatchSize: number;
+  delivery: NotificationDelivery;
+  /** "HH:MM" in timezone - when digest delivery sends the day's listings */
+  digestTime: string;
+}
+
 // =============================================================================
 // Request Types
 // =============================================================================
@@ -64,8 +93,10 @@ export interface AddPropertyToGroupRequest {
 
 // Search
 export interface SearchRequest {
-  latitude: number;
-  longitude: number;
+  channel?: SearchChannel;
+  latitude?: number;
+  longitude?: number;
+  locationIdentifier?: string;
   minPrice?: number;
   maxPrice?: number;
   minBedrooms?: number;
@@ -73,7 +104,14 @@ export interface SearchRequest {
   minBathrooms?: number;
   maxBathrooms?: number;
   radius?: number;
+  area?: SearchArea;
   furnishType?: string;
+  tenureTypes?: TenureType[];
+  newBuild?: 'only' | 'exclude';
+  excludeRetirement?: boolean;
+  excludeSharedOwnership?: boolean;
+  propertyTypes?: PropertyTypeFilter[];
+  sortBy?: SearchSortBy;
   page?: number;
 }
 
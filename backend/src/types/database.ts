@@ -3,6 +3,10 @@
  * Types for Supabase database tables
  */
 
+import { SearchChannel, TenureType, PropertyTypeFilter, MustHaveFeature, SearchArea } from './rightmove';
+import { NotificationDelivery } from './api';
+import type { NotificationPayload } from '../push/transport';
+
 // ===========================================
 // Property Table
 // ===========================================
@@ -10,8 +14,19 @@
 export interface DbProperty {
   id?: string;
   rightmove_id: number;
+  channel?: SearchChannel;
   images: string[];
   price: string;
+  // Structured price, parsed from the listing (see utils/price)
+  /** Whole pounds as advertised - per price_frequency for lettings, asking price for sales */
+  price_amount?: number | null;
+  price_frequency?: PriceFrequency | null;
+  /** Rent normalised to per calendar month (lettings only) */
+  price_monthly?: number | null;
+  /** Sales only, e.g. "Guide Price", "Offers in Excess of" */
+  price_qualifier?: string | null;
+  /** Deposit in whole pounds (lettings, from the details endpoint's letBond) */
+  deposit?: number | null;
   bedrooms: number;
   bathrooms: number;
   address: string;
@@ -22,10 +37,56 @@ export interface DbProperty {
   branch_name?: string;
   latitude?: number;
   longitude?: number;
+  // Kept current for saved and grouped properties (see services/listingStatusService)
+  listing_status?: ListingStatus;
+  status_checked_at?: string | null;
+  status_changed_at?: string | null;
   created?: string;
   updated?: string;
 }
 
+/** How often a rent is quoted. Sales prices have no frequency. */
+export type PriceFrequency = 'monthly' | 'weekly' | 'quarterly' | 'yearly';
+
+/**
+ * Where a listing is on Rightmove. 'relisted' is a listing back on the market
+ * after being let agreed, under offer, sold STC or removed.
+ */
+export type ListingStatus = 'available' | 'under_offer' | 'let_agreed' | 'sold_stc' | 'removed' | 'relisted';
+
+/** A status change seen when re-checking a listing */
+export interface DbPropertyStatusHistory {
+  id?: string;
+  property_id: string;
+  from_status: ListingStatus;
+  to_status: ListingStatus;
+  /** Rightmove's status text, if any */
+  raw_status?: string | null;
+  changed_at?: string;
+  /** Set once the change has been pushed to the users following the property */
+  notified_at?: string | null;
+}
+
+// ===========================================
+// Property Price History
+// ===========================================
+
+/** A price change seen on a known listing */
+export interface DbPropertyPriceHistory {
+  id?: string;
+  property_id: string;
+  rightmove_id: number;
+  old_price: string;
+  new_price: string;
+  old_amount: number;
+  new_amount: number;
+  /** new_amount - old_amount; negative for a drop */
+  change_amount: number;
+  recorded_at?: string;
+  /** Set once the drop has been pushed to interested users */
+  notified_at?: string | null;
+}
+
 // ===========================================
 // Query Table (Saved Searches)
 // ===========================================
@@ -34,9 +95,12 @@ export interface DbQuery {
   id?: string;
   user_id?: string;
   name: string;
+  channel?: SearchChannel;
   area_name: string;
-  latitude: number;
-  longitude: number;
+  // Either coordinates or a Rightmove location identifier (REGION^, OUTCODE^, STATION^...)
+  latitude?: number | null;
+  longitude?: number | null;
+  location_identifier?: string | null;
   min_price?: number;
   max_price?: number;
   min_bedrooms?: number;
@@ -44,7 +108,25 @@ export interface DbQuery {
   min_bathrooms?: number;
   max_bathrooms?: number;
   radius?: number;
+  /** Drawn area - when set, results must fall inside it and radius is ignored */
+  area_polygon?: SearchArea | null;
   furnish_type?: string;
+  // Sales only
+  tenure_types?: TenureType[] | null;
+  new_build?: 'only' | 'exclude' | null;
+  exclude_retirement?: boolean;
+  exclude_shared_ownership?: boolean;
+  property_types?: PropertyTypeFilter[] | null;
+  // Checked against listing details after the search (see utils/listingFilters)
+  include_keywords?: string[] | null;
+  exclude_keywords?: string[] | null;
+  must_have?: MustHaveFeature[] | null;
+  // Scheduling (see utils/schedule) - null interval uses the default
+  check_interval_minutes?: number | null;
+  active_hours_start?: string | null;  // "HH:MM", UK time
+  active_hours_end?: string | null;
+  active_days?: number[] | null;       // 0 = Sunday
+  last_checked_at?: string | null;     // Set by the monitor after a successful check
   active?: boolean;
   created?: string;
   updated?: string;
@@ -62,15 +144,133 @@ export interface DbQueryProperty {
   score?: number;
 }
 
+// ===========================================
+// Query Excluded Listing Table
+// ===========================================
+
+/** A listing that came back from search but failed the query's keyword/must-have filters */
+export interface DbQueryExcludedListing {
+  id?: string;
+  query_id: string;
+  rightmove_id: number;
+  reason: string;
+  excluded_at?: string;
+}
+
 // ===========================================
 // Device Token Table (for Push Notifications)
 // ===========================================
 
+export type DevicePlatform = 'ios' | 'android';
+
+/** APNs environment the token was issued for (debug builds get sandbox tokens) */
+export type PushEnvironment = 'production' | 'sandbox';
+
+/** One row per device - a user with several devices has several tokens */
 export interface DbDeviceToken {
   id?: string;
   user_id: string;
-  token: string;
-  platform: 'ios' | 'android';
-  created?: string;
-  updated?: string;
+  device_token: string;
+  device_type: DevicePlatform;
+  /** Unknown for tokens registered by older app builds */
+  environment?: PushEnvironment | null;
+  app_version?: string | null;
+  device_name?: string | null;
+  /** Refreshed every time the app registers the token */
+  last_seen_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ===========================================
+// Monitor Run History
+// ===========================================
+
+export type MonitorRunStatus = 'running' | 'completed' | 'failed';
+
+/** One execution of the monitor (all users, or a single user's refresh) */
+export interface DbMonitorRun {
+  id?: string;
+  started_at: string;
+  finished_at?: string | null;
+  status: MonitorRunStatus;
+  /** Set when the run was limited to one user */
+  target_user_id?: string | null;
+  users_processed?: number;
+  queries_processed?: number;
+  new_properties?: number;
+  error?: string | null;
+}
+
+export type MonitorQueryResultStatus = 'success' | 'partial' | 'failed';
+
+/** What one saved query saw during a monitor run */
+export interface DbMonitorQueryResult {
+  id?: string;
+  run_id: string;
+  query_id: string;
+  user_id: string;
+  started_at: string;
+  finished_at: string;
+  status: MonitorQueryResultStatus;
+  pages_fetched: number;
+  /** Listings Rightmove returned (after de-duplicating across pages) */
+  returned_count: number;
+  outside_area_count: number;
+  new_count: number;
+  excluded_count: number;
+  saved_count: number;
+  errors: string[];
+  // Percentage of processed listings with agent contact details (null if none were processed)
+  agent_phone_pct?: number | null;
+  agent_name_pct?: number | null;
+  branch_name_pct?: number | null;
+}
+
+// ===========================================
+// Notification Preferences
+// ===========================================
+
+/** One row per user who has changed a setting - no row means the defaults. Email is users.email_digest. */
+export interface DbNotificationPreference {
+  user_id: string;
+  push_enabled: boolean;
+  telegram_enabled: boolean;
+  muted_query_ids: string[];
+  quiet_hours_start: string | null;  // "HH:MM" in timezone
+  quiet_hours_end: string | null;
+  timezone: string;
+  min_batch_size: number;
+  delivery: NotificationDelivery;
+  digest_time: string;  // "HH:MM" in timezone
+  updated_at?: string;
+}
+
+/** A listing in a held new-listings notification */
+export interface PendingListing {
+  rightmoveId: number;
+  address: string;
+  price: string;
+  bedrooms: number;
+  image: string | null;
+  url: string;
+}
+
+export type PendingNotificationKind = 'new_listings' | 'alert';
+
+/**
+ * A notification held back by the user's preferences. new_listings rows hold one
+ * query's listings from one run; alert rows hold a price drop or status change push.
+ */
+export interface DbPendingNotification {
+  id?: string;
+  user_id: string;
+  kind: PendingNotificationKind;
+  query_id?: string | null;
+  query_name?: string | null;
+  listings?: PendingListing[] | null;
+  payload?: NotificationPayload | null;
+  /** When to look at it again; null while waiting for a minimum batch size */
+  deliver_after: string | null;
+  created_at?: string;
 }
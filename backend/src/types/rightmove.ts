@@ -7,9 +7,53 @@
 // Property Search Types (from /api/property-listing)
 // ===========================================
 
+/** Rightmove search channel - lettings or sales */
+export type SearchChannel = 'RENT' | 'BUY';
+
+export type TenureType = 'FREEHOLD' | 'LEASEHOLD' | 'SHARE_OF_FREEHOLD' | 'COMMONHOLD';
+
+/** Rightmove's propertyTypes filter values */
+export type PropertyTypeFilter =
+  | 'flat'
+  | 'detached'
+  | 'semi-detached'
+  | 'terraced'
+  | 'bungalow'
+  | 'park-home'
+  | 'land'
+  | 'private-halls';
+
+/** Features Rightmove can filter on itself via mustHave */
+export type UpstreamMustHave = 'garden' | 'parking';
+
+/** Everything a saved query can require - the rest are checked against listing details */
+export type MustHaveFeature = UpstreamMustHave | 'pets_allowed' | 'balcony' | 'lift' | 'bills_included';
+
+/** GeoJSON geometry for a drawn search area - positions are [longitude, latitude] */
+export type SearchArea =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+export interface BoundingBox {
+  west: number;
+  east: number;
+  south: number;
+  north: number;
+}
+
+export type SearchSortBy = 'newestListed' | 'highestPrice' | 'lowestPrice' | 'oldestListed';
+
 export interface PropertySearchParams {
-  latitude: number;
-  longitude: number;
+  /** Defaults to RENT */
+  channel?: SearchChannel;
+  /**
+   * Where to search - one of locationIdentifier or latitude/longitude is required.
+   * A drawn area's bounds take precedence over both.
+   */
+  latitude?: number;
+  longitude?: number;
+  /** Rightmove location, e.g. REGION^87490, OUTCODE^2527, STATION^2057 */
+  locationIdentifier?: string;
   minPrice?: number;
   maxPrice?: number;
   minBedrooms?: number;
@@ -17,11 +61,23 @@ export interface PropertySearchParams {
   minBathrooms?: number;
   maxBathrooms?: number;
   radius?: number;
+  /** Search this box instead of latitude/longitude + radius (e.g. a drawn area's bounds) */
+  bounds?: BoundingBox;
+  /** Lettings only */
   furnishType?: 'furnished' | 'unfurnished';
-  propertyTypes?: string[];
+  propertyTypes?: PropertyTypeFilter[];
+  mustHave?: UpstreamMustHave[];
+  /** Sales only */
+  tenureTypes?: TenureType[];
+  /** Sales only - 'only' restricts to new builds, 'exclude' hides them */
+  newBuild?: 'only' | 'exclude';
+  /** Sales only */
+  excludeRetirement?: boolean;
+  /** Sales only */
+  excludeSharedOwnership?: boolean;
   page?: number;
   pageSize?: number;
-  sortBy?: 'newestListed' | 'highestPrice' | 'lowestPrice' | 'oldestListed';
+  sortBy?: SearchSortBy;
 }
 
 export interface PropertySearchResult {
@@ -31,6 +87,13 @@ export interface PropertySearchResult {
   hasMore: boolean;
 }
 
+/** One page from a multi-page search, with the listings the caller hasn't seen yet */
+export interface PropertySearchPage extends PropertySearchResult {
+  newProperties: PropertyListItem[];
+  /** Listings on this page dropped by the caller's area filter */
+  outsideArea: number;
+}
+
 /** Property item from search results (minimal data) */
 export interface PropertyListItem {
   identifier: number;
@@ -109,10 +172,13 @@ export interface PropertyDetails {
   price: number;
   latitude: number;
   longitude: number;
-  letFurnishType: string;
-  letType: string;
-  letDateAvailable: string;
-  letBond: number;
+  // Lettings only - absent/null on sales listings
+  letFurnishType?: string | null;
+  letType?: string | null;
+  letDateAvailable?: string | null;
+  letBond?: number | null;
+  /** Display status, e.g. "Let agreed", "Under offer", "Sold STC" - absent while available */
+  status?: string | null;
   telephoneNumber: string;
   publicsiteUrl: string;
   branch: {
@@ -129,7 +195,7 @@ export interface PropertyDetails {
   floorplans: Floorplan[];
   virtualTours: VirtualTour[];
   analyticsInfo: AnalyticsInfo;
-  lettingsInfo: ContentSection;
+  lettingsInfo?: ContentSection | null;
   propertyDetailsInfo: ContentSection;
 }
 
@@ -185,4 +251,5 @@ export interface ContentItem {
 export interface PropertyWithDetails extends PropertyListItem {
   hdImages?: string[];
   bathrooms?: number;
+  letBond?: number | null;
 }
@@ -21,10 +21,16 @@ export const ErrorCodes = {
   // Not found errors (404)
   PROPERTY_NOT_FOUND: 'PROPERTY_NOT_FOUND',
   GROUP_NOT_FOUND: 'GROUP_NOT_FOUND',
+  QUERY_NOT_FOUND: 'QUERY_NOT_FOUND',
+  JOB_NOT_FOUND: 'JOB_NOT_FOUND',
+  UNSUBSCRIBE_LINK_NOT_FOUND: 'UNSUBSCRIBE_LINK_NOT_FOUND',
 
   // Server errors (500)
   DATABASE_ERROR: 'DATABASE_ERROR',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
+
+  // Unavailable (503)
+  TELEGRAM_NOT_CONFIGURED: 'TELEGRAM_NOT_CONFIGURED',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
@@ -0,0 +1,58 @@
+/**
+ * Geo Utilities
+ * Bounding boxes and point-in-polygon for drawn search areas (GeoJSON, [lng, lat] order)
+ */
+
+import { BoundingBox, SearchArea } from '../types/rightmove';
+
+type Ring = number[][];
+type Polygon = Ring[];
+
+function polygonsOf(area: SearchArea): Polygon[] {
+  return area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+}
+
+/**
+ * Smallest box containing every outer ring of the area
+ */
+export function boundingBox(area: SearchArea): BoundingBox {
+  const box: BoundingBox = { west: Infinity, east: -Infinity, south: Infinity, north: -Infinity };
+
+  for (const polygon of polygonsOf(area)) {
+    for (const [lng, lat] of polygon[0]) {
+      box.west = Math.min(box.west, lng);
+      box.east = Math.max(box.east, lng);
+      box.south = Math.min(box.south, lat);
+      box.north = Math.max(box.north, lat);
+    }
+  }
+
+  return box;
+}
+
+/**
+ * Ray casting - count edge crossings of a ray heading east from the point
+ */
+function pointInRing(lat: number, lng: number, ring: Ring): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * True if the point is inside any polygon of the area (and not in one of its holes)
+ */
+export function pointInArea(lat: number, lng: number, area: SearchArea): boolean {
+  return polygonsOf(area).some(([outer, ...holes]) =>
+    pointInRing(lat, lng, outer) && !holes.some(hole => pointInRing(lat, lng, hole))
+  );
+}
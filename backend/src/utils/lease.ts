@@ -0,0 +1,98 @@
+/**
+ * Lease Locks
+ * Time-limited locks that separate processes (API server, Actions runs, the CLI)
+ * take before doing the same work. A holder keeps its lease alive with a
+ * heartbeat; if it dies, the lease expires and the next caller takes over.
+ */
+
+import { randomUUID } from 'crypto';
+
+/**
+ * Storage backend for leases (see MonitorLockRepository)
+ */
+export interface LeaseStore {
+  /** Take the lease if it's free or expired. Not re-entrant: a live lease blocks everyone, its holder too */
+  tryAcquire(key: string, holder: string, ttlMs: number): Promise<boolean>;
+  /** Push our expiry out; false if the lease is no longer ours */
+  renew(key: string, holder: string, ttlMs: number): Promise<boolean>;
+  release(key: string, holder: string): Promise<void>;
+}
+
+export interface LeaseOptions {
+  ttlMs: number;
+  /** Keep retrying for this long while someone else holds the lease (0 = don't wait) */
+  waitMs?: number;
+  pollMs?: number;
+}
+
+export class Lease {
+  private controller = new AbortController();
+  private heartbeat: NodeJS.Timeout;
+
+  private constructor(
+    private store: LeaseStore,
+    readonly key: string,
+    readonly holder: string,
+    private ttlMs: number
+  ) {
+    // Renew well before expiry so one slow round trip doesn't lose the lease
+    this.heartbeat = setInterval(() => void this.renew(), Math.max(1000, Math.floor(ttlMs / 3)));
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Acquire the lease, waiting up to options.waitMs. Resolves to null if
+   * someone else still holds it.
+   */
+  static async acquire(store: LeaseStore, key: string, options: LeaseOptions): Promise<Lease | null> {
+    const holder = randomUUID();
+    const deadline = Date.now() + (options.waitMs ?? 0);
+    const pollMs = options.pollMs ?? 5000;
+
+    while (true) {
+      if (await store.tryAcquire(key, holder, options.ttlMs)) {
+        return new Lease(store, key, holder, options.ttlMs);
+      }
+      if (Date.now() + pollMs > deadline) {
+        return null;
+      }
+      await new Promise(resolve => setTimeout(resolve, pollMs));
+    }
+  }
+
+  /** Aborted if the lease is lost - stop work and don't send anything after that */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get lost(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  async release(): Promise<void> {
+    clearInterval(this.heartbeat);
+    if (this.lost) return;
+
+    try {
+      await this.store.release(this.key, this.holder);
+    } catch (error) {
+      // It expires on its own
+      console.warn(`⚠️ Could not release lease ${this.key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async renew(): Promise<void> {
+    if (this.lost) return;
+
+    try {
+      if (!(await this.store.renew(this.key, this.holder, this.ttlMs))) {
+        clearInterval(this.heartbeat);
+        console.warn(`⚠️ Lost lease ${this.key} - another process has taken over`);
+        this.controller.abort(new Error(`Lost lease ${this.key}`));
+      }
+    } catch (error) {
+      // Keep the lease until it actually expires; the next beat retries
+      console.warn(`⚠️ Lease heartbeat failed for ${this.key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Listing Filters
+ * Keyword and must-have checks Rightmove can't do for us, run against listing
+ * details before a property is linked to a saved query
+ */
+
+import { DbQuery, MustHaveFeature, PropertyDetails, UpstreamMustHave } from '../types';
+
+type DetailsMustHave = Exclude<MustHaveFeature, UpstreamMustHave>;
+
+const UPSTREAM_MUST_HAVES: MustHaveFeature[] = ['garden', 'parking'];
+
+/** Phrases that count as having the feature, and phrases that rule it out */
+const FEATURE_PATTERNS: Record<DetailsMustHave, { match: RegExp; reject?: RegExp }> = {
+  pets_allowed: {
+    match: /\b(pets?|dogs?|cats?)\s+(are\s+)?(allowed|considered|welcome|accepted|permitted)\b|\bpet[\s-]friendly\b/i,
+    reject: /\bno\s+pets\b|\bpets\s+(are\s+)?not\s+(allowed|permitted|accepted|considered)\b/i
+  },
+  balcony: {
+    match: /\bbalcon(y|ies)\b/i
+  },
+  lift: {
+    match: /\b(lifts?|elevators?)\b/i,
+    reject: /\bno\s+lift\b/i
+  },
+  bills_included: {
+    match: /\bbills\s+(are\s+)?included\b|\b(inclusive\s+of|including)\s+(all\s+)?bills\b/i,
+    reject: /\bbills\s+(are\s+)?(not\s+included|excluded)\b|\bexcluding\s+(all\s+)?bills\b/i
+  }
+};
+
+export interface ListingFilters {
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  mustHave: DetailsMustHave[];
+}
+
+export interface ListingFilterResult {
+  matches: boolean;
+  /** Why the listing was rejected, e.g. 'missing keyword "garage"' */
+  reason?: string;
+}
+
+/**
+ * The must-haves we can hand to Rightmove's mustHave param
+ */
+export function upstreamMustHaves(mustHave?: MustHaveFeature[] | null): UpstreamMustHave[] {
+  return (mustHave || []).filter((f): f is UpstreamMustHave => UPSTREAM_MUST_HAVES.includes(f));
+}
+
+/**
+ * The filters that need listing details to evaluate, or null if the query has none
+ */
+export function listingFiltersFor(query: DbQuery): ListingFilters | null {
+  const filters: ListingFilters = {
+    includeKeywords: query.include_keywords || [],
+    excludeKeywords: query.exclude_keywords || [],
+    mustHave: (query.must_have || []).filter((f): f is DetailsMustHave => !UPSTREAM_MUST_HAVES.includes(f))
+  };
+
+  const empty = filters.includeKeywords.length === 0 &&
+    filters.excludeKeywords.length === 0 &&
+    filters.mustHave.length === 0;
+
+  return empty ? null : filters;
+}
+
+/**
+ * All the free text we search: summary, description (HTML stripped) and key features
+ */
+function listingText(details: PropertyDetails): string {
+  return [
+    details.summary,
+    details.fullDescription?.replace(/<[^>]+>/g, ' '),
+    ...(details.features || []).map(f => f.featureDescription)
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(^|\\W)${escaped}(?=\\W|$)`, 'i');
+}
+
+/**
+ * Every include keyword and must-have has to appear; no exclude keyword may.
+ * Matching is case-insensitive on whole words.
+ */
+export function matchListingFilters(details: PropertyDetails, filters: ListingFilters): ListingFilterResult {
+  const text = listingText(details);
+
+  for (const keyword of filters.excludeKeywords) {
+    if (keywordPattern(keyword).test(text)) {
+      return { matches: false, reason: `contains excluded keyword "${keyword}"` };
+    }
+  }
+
+  for (const keyword of filters.includeKeywords) {
+    if (!keywordPattern(keyword).test(text)) {
+      return { matches: false, reason: `missing keyword "${keyword}"` };
+    }
+  }
+
+  for (const feature of filters.mustHave) {
+    const { match, reject } = FEATURE_PATTERNS[feature];
+    if (reject?.test(text) || !match.test(text)) {
+      return { matches: false, reason: `missing ${feature.replace('_', ' ')}` };
+    }
+  }
+
+  return { matches: true };
+}
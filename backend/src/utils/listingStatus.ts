@@ -0,0 +1,45 @@
+/**
+ * Listing Status Utilities
+ * Map Rightmove's status text to a ListingStatus and work out transitions
+ */
+
+import { ListingStatus } from '../types/database';
+
+const OFF_MARKET: ListingStatus[] = ['under_offer', 'let_agreed', 'sold_stc', 'removed'];
+
+/**
+ * Rightmove status text ("Let agreed", "Under offer", "Sold STC", null) for a
+ * listing that is still up. Unknown non-empty text is treated as under offer.
+ */
+export function parseListingStatus(raw: string | null | undefined): ListingStatus {
+  const status = raw?.trim().toLowerCase();
+  if (!status) return 'available';
+
+  if (status.includes('let agreed')) return 'let_agreed';
+  if (status.includes('sold stc') || status.includes('subject to contract')) return 'sold_stc';
+  return 'under_offer';
+}
+
+/**
+ * The status to store given what we had and what we just observed. A listing
+ * that comes back after being off the market is 'relisted' (and stays so while
+ * it remains available).
+ */
+export function nextListingStatus(current: ListingStatus, observed: ListingStatus): ListingStatus {
+  if (observed === 'available' && (current === 'relisted' || OFF_MARKET.includes(current))) {
+    return 'relisted';
+  }
+  return observed;
+}
+
+/** Short phrase for notifications, e.g. "is now let agreed" */
+export function describeListingStatus(status: ListingStatus): string {
+  switch (status) {
+    case 'under_offer': return 'is now under offer';
+    case 'let_agreed': return 'is now let agreed';
+    case 'sold_stc': return 'is now sold STC';
+    case 'removed': return 'has been taken off Rightmove';
+    case 'relisted': return 'is back on the market';
+    case 'available': return 'is available';
+  }
+}
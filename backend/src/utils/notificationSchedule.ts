@@ -0,0 +1,142 @@
+/**
+ * Notification Schedule Utilities
+ * Decides whether notifications go out now or are held back by a user's
+ * preferences - quiet hours, daily digest delivery and minimum batch size -
+ * and until when
+ */
+
+import config from '../config';
+import { NotificationPreferences } from '../types/api';
+import { PendingNotificationKind } from '../types/database';
+import { isWithinDailyWindow, localTime, parseTimeOfDay } from './schedule';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: { push: true, email: false, telegram: true },
+  mutedQueryIds: [],
+  quietHours: null,
+  timezone: config.queryScheduleTimezone,
+  minBatchSize: 1,
+  delivery: 'instant',
+  digestTime: '18:00'
+};
+
+export type DeliveryDecision =
+  | { send: true }
+  /** until: when to look again, or null to wait for more listings (up to notificationMaxHold) */
+  | { send: false; until: Date | null; reason: 'quiet_hours' | 'digest' | 'min_batch' };
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The next moment, strictly after now, at which the wall clock in timeZone
+ * reads the given minutes past midnight
+ */
+export function nextLocalTime(minutesPastMidnight: number, timeZone: string, now: Date = new Date()): Date {
+  const { minutes } = localTime(now, timeZone);
+  const ahead = (minutesPastMidnight - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const startOfMinute = now.getTime() - (now.getTime() % 60_000);
+  const candidate = new Date(startOfMinute + ahead * 60_000);
+
+  // Across a clock change the wall clock is an hour out - correct it, unless the
+  // time doesn't exist that day (spring forward), when the hour after will do
+  const drift = localTime(candidate, timeZone).minutes - minutesPastMidnight;
+  if (drift === 0) return candidate;
+
+  const wrapped = ((drift + MINUTES_PER_DAY / 2) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY - MINUTES_PER_DAY / 2;
+  const corrected = new Date(candidate.getTime() - wrapped * 60_000);
+  return corrected > now && localTime(corrected, timeZone).minutes === minutesPastMidnight ? corrected : candidate;
+}
+
+function quietWindow(prefs: NotificationPreferences): { start: number; end: number } | null {
+  if (!prefs.quietHours) return null;
+  const start = parseTimeOfDay(prefs.quietHours.start);
+  const end = parseTimeOfDay(prefs.quietHours.end);
+  if (start === null || end === null || start === end) return null;
+  return { start, end };
+}
+
+export function isWithinQuietHours(prefs: NotificationPreferences, now: Date = new Date()): boolean {
+  const window = quietWindow(prefs);
+  if (!window) return false;
+  return isWithinDailyWindow(localTime(now, prefs.timezone).minutes, window.start, window.end);
+}
+
+/** When the current quiet hours end, or null if it isn't quiet hours */
+export function quietHoursEnd(prefs: NotificationPreferences, now: Date = new Date()): Date | null {
+  const window = quietWindow(prefs);
+  if (!window || !isWithinQuietHours(prefs, now)) return null;
+  return nextLocalTime(window.end, prefs.timezone, now);
+}
+
+/** The next daily digest slot after now */
+export function nextDigestTime(prefs: NotificationPreferences, now: Date = new Date()): Date {
+  const digestTime = parseTimeOfDay(prefs.digestTime) ?? parseTimeOfDay(DEFAULT_NOTIFICATION_PREFERENCES.digestTime)!;
+  return nextLocalTime(digestTime, prefs.timezone, now);
+}
+
+export function hasEnabledChannel(prefs: NotificationPreferences): boolean {
+  return prefs.channels.push || prefs.channels.email || prefs.channels.telegram;
+}
+
+/**
+ * Whether new-listing notifications go out now. Quiet hours hold everything until
+ * they end; digest delivery holds listings for the next digest slot (dueAt, set
+ * when the first of them was held), and past the end of quiet hours if the slot
+ * is later; instant delivery waits for minBatchSize listings, but never longer
+ * than notificationMaxHold.
+ */
+export function decideListingDelivery(
+  prefs: NotificationPreferences,
+  waiting: {
+    /** Listings that would go out: held earlier plus new */
+    count: number;
+    /** Earliest deliver_after of the held listings */
+    dueAt: Date | null;
+    /** When the oldest held listing was held */
+    oldestHeldAt: Date | null;
+  },
+  now: Date = new Date()
+): DeliveryDecision {
+  const digestAt = prefs.delivery === 'digest' ? waiting.dueAt ?? nextDigestTime(prefs, now) : null;
+
+  const quietEnd = quietHoursEnd(prefs, now);
+  if (quietEnd) {
+    // The end of quiet hours isn't a digest slot - don't send the digest early
+    return digestAt && digestAt > quietEnd
+      ? { send: false, until: digestAt, reason: 'digest' }
+      : { send: false, until: quietEnd, reason: 'quiet_hours' };
+  }
+
+  if (digestAt) {
+    if (digestAt <= now) return { send: true };
+    return { send: false, until: digestAt, reason: 'digest' };
+  }
+
+  const heldTooLong = waiting.oldestHeldAt !== null
+    && now.getTime() - waiting.oldestHeldAt.getTime() >= config.notificationMaxHold;
+  if (waiting.count < prefs.minBatchSize && !heldTooLong) {
+    return { send: false, until: null, reason: 'min_batch' };
+  }
+
+  return { send: true };
+}
+
+/**
+ * When a held notification is due under the user's preferences - used to reschedule
+ * what's held after they change. now if quiet hours and digest no longer hold it.
+ */
+export function heldDeliveryTime(prefs: NotificationPreferences, kind: PendingNotificationKind, now: Date = new Date()): Date {
+  if (kind === 'alert') return quietHoursEnd(prefs, now) ?? now;
+
+  const decision = decideListingDelivery(prefs, { count: prefs.minBatchSize, dueAt: null, oldestHeldAt: null }, now);
+  return (!decision.send && decision.until) || now;
+}
@@ -0,0 +1,150 @@
+/**
+ * Price Utilities
+ * Display formatting and numeric normalisation for lettings (pcm) and sales prices
+ */
+
+import { DisplayPrice, SearchChannel } from '../types/rightmove';
+import { PriceFrequency } from '../types/database';
+
+interface PricedListing {
+  displayPrices?: DisplayPrice[];
+  price?: number;
+  monthlyRent?: number;
+  priceQualifier?: string;
+}
+
+/** Structured price columns on DbProperty */
+export interface StructuredPrice {
+  price_amount: number | null;
+  price_frequency: PriceFrequency | null;
+  price_monthly: number | null;
+  price_qualifier: string | null;
+}
+
+// Rightmove suffixes: "pcm", "pw" (and "pppw" for student lets), "pq", "pa"
+const FREQUENCY_PATTERNS: [RegExp, PriceFrequency][] = [
+  [/\b(pcm|per month)\b/i, 'monthly'],
+  [/\b(pw|pppw|per week)\b/i, 'weekly'],
+  [/\b(pq|per quarter)\b/i, 'quarterly'],
+  [/\b(pa|per annum|per year)\b/i, 'yearly'],
+];
+
+const MONTHS_PER: Record<PriceFrequency, number> = {
+  monthly: 1,
+  weekly: 12 / 52,
+  quarterly: 3,
+  yearly: 12,
+};
+
+function formatPounds(amount: number): string {
+  return `£${amount.toLocaleString('en-GB')}`;
+}
+
+/**
+ * Format a price when Rightmove didn't give us a display string.
+ * Lettings: "£2,100 pcm". Sales: "Guide Price £450,000".
+ */
+export function formatPrice(amount: number, channel: SearchChannel, qualifier?: string): string {
+  if (channel === 'BUY') {
+    return qualifier ? `${qualifier} ${formatPounds(amount)}` : formatPounds(amount);
+  }
+  return `${formatPounds(amount)} pcm`;
+}
+
+/**
+ * Rightmove's own display price, falling back to our formatting
+ */
+export function displayPriceFor(listing: PricedListing, channel: SearchChannel = 'RENT'): string {
+  const display = listing.displayPrices?.[0]?.displayPrice;
+  if (display) return display;
+
+  const amount = channel === 'BUY'
+    ? listing.price ?? 0
+    : listing.monthlyRent ?? listing.price ?? 0;
+
+  return formatPrice(amount, channel, listing.priceQualifier || undefined);
+}
+
+/**
+ * The amount price changes are tracked on, in whole pounds - monthly rent for
+ * lettings, asking price for sales - or null if the listing has none (e.g. POA).
+ * Matches price_monthly ?? price_amount on a stored property.
+ */
+export function priceAmountFor(listing: PricedListing, channel: SearchChannel = 'RENT'): number | null {
+  const amount = channel === 'BUY'
+    ? listing.price
+    : listing.monthlyRent || listing.price;
+
+  return amount && amount > 0 ? Math.round(amount) : null;
+}
+
+/** Whole-pound monthly equivalent of a rent quoted at the given frequency */
+export function toMonthly(amount: number, frequency: PriceFrequency): number {
+  return Math.round(amount / MONTHS_PER[frequency]);
+}
+
+function wholePounds(amount: number | null | undefined): number | null {
+  return amount && amount > 0 ? Math.round(amount) : null;
+}
+
+/**
+ * Parse a display price such as "£485 pw" or "Offers in Excess of £450,000".
+ * Rents without a suffix are taken as monthly. A price with no amount (e.g.
+ * "POA") gives null amounts, keeping the text as the qualifier for sales.
+ */
+export function parsePriceText(text: string, channel: SearchChannel = 'RENT'): StructuredPrice {
+  const match = text.match(/£\s?([\d,]+(?:\.\d+)?)/);
+  const amount = match ? wholePounds(parseFloat(match[1].replace(/,/g, ''))) : null;
+
+  if (channel === 'BUY') {
+    const qualifier = (match ? text.slice(0, match.index) : text).trim();
+    return { price_amount: amount, price_frequency: null, price_monthly: null, price_qualifier: qualifier || null };
+  }
+
+  if (!match || amount === null) {
+    return { price_amount: null, price_frequency: null, price_monthly: null, price_qualifier: null };
+  }
+
+  const suffix = text.slice(match.index! + match[0].length);
+  const frequency = FREQUENCY_PATTERNS.find(([pattern]) => pattern.test(suffix))?.[1] ?? 'monthly';
+  return { price_amount: amount, price_frequency: frequency, price_monthly: toMonthly(amount, frequency), price_qualifier: null };
+}
+
+/**
+ * Structured price for a search result. The amount and frequency follow the
+ * primary display price (how the agent advertised it); the monthly figure
+ * prefers Rightmove's own monthlyRent.
+ */
+export function structuredPriceFor(listing: PricedListing, channel: SearchChannel = 'RENT'): StructuredPrice {
+  const display = listing.displayPrices?.[0]?.displayPrice;
+  const parsed = display ? parsePriceText(display, channel) : null;
+
+  if (channel === 'BUY') {
+    return {
+      price_amount: wholePounds(listing.price) ?? parsed?.price_amount ?? null,
+      price_frequency: null,
+      price_monthly: null,
+      price_qualifier: listing.priceQualifier || parsed?.price_qualifier || null
+    };
+  }
+
+  const monthly = wholePounds(listing.monthlyRent) ?? parsed?.price_monthly ?? wholePounds(listing.price);
+  if (parsed?.price_amount) {
+    return { ...parsed, price_monthly: monthly };
+  }
+  return {
+    price_amount: monthly,
+    price_frequency: monthly === null ? null : 'monthly',
+    price_monthly: monthly,
+    price_qualifier: null
+  };
+}
+
+/**
+ * Deposit in whole pounds from the details endpoint's letBond. Undefined when
+ * we didn't fetch details, so an upsert leaves any stored deposit alone.
+ */
+export function depositFor(listing: { letBond?: number | null }): number | null | undefined {
+  if (listing.letBond === undefined) return undefined;
+  return wholePounds(listing.letBond);
+}
@@ -0,0 +1,87 @@
+/**
+ * Query Schedule Utilities
+ * Decides whether a saved query is due a check, from its interval, active hours
+ * and when it was last checked
+ */
+
+import config from '../config';
+import { DbQuery } from '../types/database';
+
+// Scheduler ticks drift by a few seconds; don't push a query to the next tick over that
+const DUE_TOLERANCE_MS = 60 * 1000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Parse "HH:MM" into minutes past midnight, or null if malformed
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Wall-clock minutes past midnight and weekday (0 = Sunday) in a timezone
+ */
+export function localTime(now: Date, timeZone: string): { minutes: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    weekday: WEEKDAYS.indexOf(part('weekday'))
+  };
+}
+
+/**
+ * True if minutes past midnight fall within [start, end), wrapping past midnight
+ * when end is earlier than start
+ */
+export function isWithinDailyWindow(minutes: number, start: number, end: number): boolean {
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * True if now falls within the query's active days and hours. Hours may wrap
+ * past midnight (e.g. 22:00-02:00); with only one bound set, hours are ignored.
+ */
+export function isWithinActiveHours(query: DbQuery, now: Date = new Date(), timeZone = config.queryScheduleTimezone): boolean {
+  const { minutes, weekday } = localTime(now, timeZone);
+
+  if (query.active_days && query.active_days.length > 0 && !query.active_days.includes(weekday)) {
+    return false;
+  }
+
+  const start = query.active_hours_start ? parseTimeOfDay(query.active_hours_start) : null;
+  const end = query.active_hours_end ? parseTimeOfDay(query.active_hours_end) : null;
+  if (start === null || end === null || start === end) return true;
+
+  return isWithinDailyWindow(minutes, start, end);
+}
+
+/**
+ * True if the query is inside its active window and its interval has elapsed
+ * since the last successful check
+ */
+export function isQueryDue(query: DbQuery, now: Date = new Date()): boolean {
+  if (!isWithinActiveHours(query, now)) return false;
+  if (!query.last_checked_at) return true;
+
+  const intervalMs = (query.check_interval_minutes ?? config.defaultCheckIntervalMinutes) * 60 * 1000;
+  return now.getTime() - Date.parse(query.last_checked_at) >= intervalMs - DUE_TOLERANCE_MS;
+}
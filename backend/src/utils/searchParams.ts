@@ -0,0 +1,43 @@
+/**
+ * Search Param Utilities
+ * Maps a saved query (DB row) onto Rightmove search params
+ */
+
+import { DbQuery } from '../types/database';
+import { PropertySearchParams } from '../types/rightmove';
+import { upstreamMustHaves } from './listingFilters';
+import { boundingBox } from './geo';
+
+export function queryToSearchParams(query: DbQuery): PropertySearchParams {
+  const channel = query.channel || 'RENT';
+
+  const params: PropertySearchParams = {
+    channel,
+    latitude: query.latitude ?? undefined,
+    longitude: query.longitude ?? undefined,
+    locationIdentifier: query.location_identifier || undefined,
+    minPrice: query.min_price,
+    maxPrice: query.max_price,
+    minBedrooms: query.min_bedrooms,
+    maxBedrooms: query.max_bedrooms,
+    minBathrooms: query.min_bathrooms,
+    maxBathrooms: query.max_bathrooms,
+    radius: query.radius,
+    bounds: query.area_polygon ? boundingBox(query.area_polygon) : undefined,
+    propertyTypes: query.property_types || undefined,
+    // Keywords and the other must-haves are checked against details afterwards
+    mustHave: upstreamMustHaves(query.must_have),
+    pageSize: 25
+  };
+
+  if (channel === 'RENT') {
+    params.furnishType = query.furnish_type as 'furnished' | 'unfurnished' | undefined;
+  } else {
+    params.tenureTypes = query.tenure_types || undefined;
+    params.newBuild = query.new_build || undefined;
+    params.excludeRetirement = query.exclude_retirement;
+    params.excludeSharedOwnership = query.exclude_shared_ownership;
+  }
+
+  return params;
+}
@@ -0,0 +1,35 @@
+-- Multiple devices per user
+-- Device tokens were upserted on user_id, so only the last device a user
+-- registered got pushes. Key on the token itself instead (a device signing in
+-- to another account moves to that user) and keep per-device metadata.
+-- Tokens not re-registered for 180 days are no longer pushed to (config.deviceTokenMaxAge).
+
+BEGIN;
+
+ALTER TABLE device_tokens
+ADD COLUMN IF NOT EXISTS environment TEXT CHECK (environment IN ('production', 'sandbox')),
+ADD COLUMN IF NOT EXISTS app_version TEXT,
+ADD COLUMN IF NOT EXISTS device_name TEXT,
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+UPDATE device_tokens SET last_seen_at = COALESCE(updated_at, created_at, NOW());
+
+COMMENT ON COLUMN device_tokens.environment IS 'APNs environment the token belongs to (NULL = unknown; learned on first successful push)';
+COMMENT ON COLUMN device_tokens.app_version IS 'App version that last registered the token';
+COMMENT ON COLUMN device_tokens.device_name IS 'Device model or name, for display';
+COMMENT ON COLUMN device_tokens.last_seen_at IS 'When the app last registered the token';
+
+-- Keep the most recent registration of each token
+DELETE FROM device_tokens a
+USING device_tokens b
+WHERE a.device_token = b.device_token
+  AND (a.last_seen_at < b.last_seen_at OR (a.last_seen_at = b.last_seen_at AND a.id < b.id));
+
+ALTER TABLE device_tokens DROP CONSTRAINT IF EXISTS device_tokens_user_id_key;
+ALTER TABLE device_tokens DROP CONSTRAINT IF EXISTS device_tokens_user_id_device_token_key;
+ALTER TABLE device_tokens DROP CONSTRAINT IF EXISTS device_tokens_device_token_key;
+ALTER TABLE device_tokens ADD CONSTRAINT device_tokens_device_token_key UNIQUE (device_token);
+
+CREATE INDEX IF NOT EXISTS idx_device_tokens_user_id ON device_tokens(user_id);
+
+COMMIT;
@@ -0,0 +1,18 @@
+-- Email digests of new listings
+-- Users who turn digests on (PUT /api/user/email-digest) get an email per monitor
+-- run listing the new matches for each saved search, sent to their auth email.
+-- Every email links to /api/email/unsubscribe?token=..., which needs no login,
+-- so each user gets an unguessable token to identify them there.
+
+BEGIN;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS email_digest BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS email_unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_unsubscribe_token ON users(email_unsubscribe_token);
+
+COMMENT ON COLUMN users.email_digest IS 'Send an email digest of new listings after monitor runs';
+COMMENT ON COLUMN users.email_unsubscribe_token IS 'Identifies the user in unsubscribe links (no login needed)';
+
+COMMIT;
@@ -0,0 +1,58 @@
+-- Listing status tracking
+-- Saved and grouped properties are re-fetched by the monitor (oldest check first)
+-- so the app can show when they're let agreed, under offer, sold STC, removed or
+-- back on the market. Each transition is logged in property_status_history and
+-- pushed to the users following the property, then marked notified.
+
+BEGIN;
+
+ALTER TABLE property
+ADD COLUMN IF NOT EXISTS listing_status TEXT NOT NULL DEFAULT 'available',
+ADD COLUMN IF NOT EXISTS status_checked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE property DROP CONSTRAINT IF EXISTS property_listing_status_check;
+ALTER TABLE property ADD CONSTRAINT property_listing_status_check
+    CHECK (listing_status IN ('available', 'under_offer', 'let_agreed', 'sold_stc', 'removed', 'relisted'));
+
+CREATE INDEX IF NOT EXISTS idx_property_status_checked ON property(status_checked_at NULLS FIRST);
+
+COMMENT ON COLUMN property.listing_status IS 'available, under_offer, let_agreed, sold_stc, removed, or relisted (back on the market)';
+COMMENT ON COLUMN property.status_checked_at IS 'When the monitor last re-fetched this listing (saved and grouped properties only)';
+COMMENT ON COLUMN property.status_changed_at IS 'When listing_status last changed';
+
+CREATE TABLE IF NOT EXISTS property_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    property_id UUID NOT NULL REFERENCES property(id) ON DELETE CASCADE,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    raw_status TEXT,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    notified_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_status_history_property ON property_status_history(property_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_property_status_history_pending ON property_status_history(changed_at)
+    WHERE notified_at IS NULL;
+
+COMMENT ON COLUMN property_status_history.raw_status IS 'Rightmove''s status text, e.g. "Let agreed" (NULL when available or removed)';
+COMMENT ON COLUMN property_status_history.notified_at IS 'When the change was claimed for alerting (NULL = not yet sent)';
+
+-- Properties someone saved or put in a group - the ones worth re-checking
+CREATE OR REPLACE VIEW followed_property WITH (security_invoker = true) AS
+SELECT p.id, p.rightmove_id, p.address, p.listing_status, p.status_checked_at
+FROM property p
+WHERE EXISTS (
+        SELECT 1 FROM user_property_action a
+        WHERE a.property_id = p.id AND a.action = 'saved'
+    )
+    OR EXISTS (
+        SELECT 1 FROM property_group_member m
+        WHERE m.property_id = p.id
+    );
+
+-- Service role only - no client access
+REVOKE ALL ON followed_property FROM anon, authenticated;
+ALTER TABLE property_status_history ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
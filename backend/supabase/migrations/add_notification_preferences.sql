@@ -0,0 +1,62 @@
+-- Notification preferences and held notifications
+-- Users choose channels (push, Telegram - email stays users.email_digest), mute
+-- saved queries, set quiet hours in their timezone, a minimum batch size and
+-- instant or daily digest delivery (GET/PUT /api/user/notification-preferences).
+-- Notifications the monitor can't send yet are kept in pending_notification
+-- until deliver_after, then sent by the next full monitor run.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS notification_preference (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  telegram_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  muted_query_ids UUID[] NOT NULL DEFAULT '{}',
+  quiet_hours_start TEXT,
+  quiet_hours_end TEXT,
+  timezone TEXT NOT NULL DEFAULT 'Europe/London',
+  min_batch_size INTEGER NOT NULL DEFAULT 1,
+  delivery TEXT NOT NULL DEFAULT 'instant',
+  digest_time TEXT NOT NULL DEFAULT '18:00',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT notification_preference_quiet_hours_check CHECK (
+    (quiet_hours_start IS NULL OR quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+    AND (quiet_hours_end IS NULL OR quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+  ),
+  CONSTRAINT notification_preference_digest_time_check CHECK (digest_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  CONSTRAINT notification_preference_min_batch_size_check CHECK (min_batch_size BETWEEN 1 AND 50),
+  CONSTRAINT notification_preference_delivery_check CHECK (delivery IN ('instant', 'digest'))
+);
+
+COMMENT ON COLUMN notification_preference.muted_query_ids IS 'Saved queries whose new listings do not notify';
+COMMENT ON COLUMN notification_preference.quiet_hours_start IS 'HH:MM in timezone from which notifications are held; ignored unless quiet_hours_end is also set';
+COMMENT ON COLUMN notification_preference.quiet_hours_end IS 'HH:MM in timezone when held notifications go out; may be earlier than the start to wrap past midnight';
+COMMENT ON COLUMN notification_preference.timezone IS 'IANA timezone for quiet hours and digest_time';
+COMMENT ON COLUMN notification_preference.min_batch_size IS 'Instant delivery waits for at least this many new listings (at most a day)';
+COMMENT ON COLUMN notification_preference.delivery IS 'instant: after each monitor run; digest: once a day at digest_time';
+
+CREATE TABLE IF NOT EXISTS pending_notification (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('new_listings', 'alert')),
+  query_id UUID,
+  query_name TEXT,
+  listings JSONB,
+  payload JSONB,
+  deliver_after TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_notification_user_id ON pending_notification(user_id);
+CREATE INDEX IF NOT EXISTS idx_pending_notification_deliver_after ON pending_notification(deliver_after);
+
+COMMENT ON TABLE pending_notification IS 'Notifications held by quiet hours, digest delivery or minimum batch size - deleted when sent';
+COMMENT ON COLUMN pending_notification.listings IS 'new_listings: the listings one query found in one run';
+COMMENT ON COLUMN pending_notification.payload IS 'alert: the push payload (price drop or status change)';
+COMMENT ON COLUMN pending_notification.deliver_after IS 'When to look at it again; NULL while waiting for the minimum batch size';
+
+-- Service role only - no client access
+ALTER TABLE notification_preference ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pending_notification ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
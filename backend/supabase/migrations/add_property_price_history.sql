@@ -0,0 +1,49 @@
+-- Property price tracking
+-- property.price is Rightmove's display string and was simply overwritten, so
+-- reductions went unnoticed. price_amount holds the numeric price (whole pounds,
+-- per month for lettings), and every change seen by the monitor or the search API
+-- is logged in property_price_history. Drops are pushed to users who saved or
+-- were matched to the property, then marked notified.
+
+BEGIN;
+
+ALTER TABLE property
+ADD COLUMN IF NOT EXISTS price_amount INTEGER;
+
+COMMENT ON COLUMN property.price_amount IS 'Price in whole pounds - per month for lettings, asking price for sales';
+
+-- Backfill from the display string ("£2,100 pcm", "Guide Price £450,000").
+-- Only sales and rents quoted per month (or with no suffix) hold a monthly amount;
+-- rents quoted weekly, quarterly or yearly are left for the monitor to fill in
+UPDATE property
+SET price_amount = NULLIF(regexp_replace(substring(price FROM '£[0-9,]+'), '[^0-9]', '', 'g'), '')::INTEGER
+WHERE price_amount IS NULL
+  AND price ~ '£[0-9]'
+  AND (channel = 'BUY'
+    OR price ~* '\m(pcm|per month)\M'
+    OR price !~* '\m(pw|pppw|per week|pq|per quarter|pa|per annum|per year)\M');
+
+CREATE TABLE IF NOT EXISTS property_price_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    property_id UUID NOT NULL REFERENCES property(id) ON DELETE CASCADE,
+    rightmove_id INTEGER NOT NULL,
+    old_price TEXT NOT NULL,
+    new_price TEXT NOT NULL,
+    old_amount INTEGER NOT NULL,
+    new_amount INTEGER NOT NULL,
+    change_amount INTEGER NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    notified_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_price_history_property ON property_price_history(property_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_property_price_history_pending_drops ON property_price_history(recorded_at)
+    WHERE notified_at IS NULL AND change_amount < 0;
+
+COMMENT ON COLUMN property_price_history.change_amount IS 'new_amount - old_amount; negative for a price drop';
+COMMENT ON COLUMN property_price_history.notified_at IS 'When the drop was claimed for alerting (NULL = not yet sent; never set for rises)';
+
+-- Service role only - no client access
+ALTER TABLE property_price_history ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
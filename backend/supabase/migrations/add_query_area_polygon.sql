@@ -0,0 +1,13 @@
+-- Drawn-area searches
+-- A query can store a GeoJSON Polygon or MultiPolygon ([lng, lat] positions).
+-- Rightmove is searched over its bounding box and results outside the shape are dropped.
+
+BEGIN;
+
+ALTER TABLE query
+ADD COLUMN IF NOT EXISTS area_polygon JSONB
+    CHECK (area_polygon IS NULL OR area_polygon->>'type' IN ('Polygon', 'MultiPolygon'));
+
+COMMENT ON COLUMN query.area_polygon IS 'GeoJSON Polygon/MultiPolygon search area; when set, radius is ignored';
+
+COMMIT;
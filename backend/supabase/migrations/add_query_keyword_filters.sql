@@ -0,0 +1,35 @@
+-- Property type, keyword and must-have filters on saved searches
+-- property_types and garden/parking are sent to Rightmove; keywords and the other
+-- must-haves are checked against listing details by the monitor
+
+BEGIN;
+
+ALTER TABLE query
+ADD COLUMN IF NOT EXISTS property_types TEXT[],
+ADD COLUMN IF NOT EXISTS include_keywords TEXT[],
+ADD COLUMN IF NOT EXISTS exclude_keywords TEXT[],
+ADD COLUMN IF NOT EXISTS must_have TEXT[];
+
+COMMENT ON COLUMN query.property_types IS 'Rightmove property types: flat, detached, semi-detached, terraced, bungalow, park-home, land, private-halls (NULL = any)';
+COMMENT ON COLUMN query.include_keywords IS 'Every keyword must appear in the summary, description or key features';
+COMMENT ON COLUMN query.exclude_keywords IS 'Listings mentioning any of these are skipped';
+COMMENT ON COLUMN query.must_have IS 'garden, parking, pets_allowed, balcony, lift, bills_included';
+
+-- Listings that failed a query's keyword/must-have filters, so the monitor
+-- doesn't fetch their details again on every run. Cleared when the filters change.
+CREATE TABLE IF NOT EXISTS query_excluded_listing (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    query_id UUID NOT NULL REFERENCES query(id) ON DELETE CASCADE,
+    rightmove_id BIGINT NOT NULL,
+    reason TEXT NOT NULL,
+    excluded_at TIMESTAMP DEFAULT NOW(),
+
+    CONSTRAINT query_excluded_listing_unique UNIQUE (query_id, rightmove_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_excluded_listing_query ON query_excluded_listing(query_id);
+
+-- Service role only - no client access
+ALTER TABLE query_excluded_listing ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Rightmove location identifiers on saved searches
+-- A query can target REGION^/OUTCODE^/POSTCODE^/STATION^ locations instead of coordinates,
+-- so latitude/longitude become optional (one or the other is required)
+
+BEGIN;
+
+ALTER TABLE query
+ADD COLUMN IF NOT EXISTS location_identifier TEXT;
+
+ALTER TABLE query ALTER COLUMN latitude DROP NOT NULL;
+ALTER TABLE query ALTER COLUMN longitude DROP NOT NULL;
+
+ALTER TABLE query DROP CONSTRAINT IF EXISTS query_location_check;
+ALTER TABLE query ADD CONSTRAINT query_location_check
+    CHECK (location_identifier IS NOT NULL OR (latitude IS NOT NULL AND longitude IS NOT NULL));
+
+COMMENT ON COLUMN query.location_identifier IS 'Rightmove location, e.g. REGION^87490, OUTCODE^2527, STATION^2057 (used instead of latitude/longitude)';
+
+COMMIT;
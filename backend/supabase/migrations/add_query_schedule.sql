@@ -0,0 +1,37 @@
+-- Per-query check frequency and active hours
+-- The scheduler ticks every few minutes and the monitor only runs queries whose
+-- interval has elapsed since last_checked_at, within their active days/hours (UK time)
+
+BEGIN;
+
+ALTER TABLE query
+ADD COLUMN IF NOT EXISTS check_interval_minutes INTEGER,
+ADD COLUMN IF NOT EXISTS active_hours_start TEXT,
+ADD COLUMN IF NOT EXISTS active_hours_end TEXT,
+ADD COLUMN IF NOT EXISTS active_days SMALLINT[],
+ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ;
+
+ALTER TABLE query DROP CONSTRAINT IF EXISTS query_check_interval_check;
+ALTER TABLE query ADD CONSTRAINT query_check_interval_check
+    CHECK (check_interval_minutes IS NULL OR check_interval_minutes BETWEEN 15 AND 10080);
+
+ALTER TABLE query DROP CONSTRAINT IF EXISTS query_active_hours_check;
+ALTER TABLE query ADD CONSTRAINT query_active_hours_check
+    CHECK (
+        (active_hours_start IS NULL OR active_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+        AND (active_hours_end IS NULL OR active_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+    );
+
+ALTER TABLE query DROP CONSTRAINT IF EXISTS query_active_days_check;
+ALTER TABLE query ADD CONSTRAINT query_active_days_check
+    CHECK (active_days IS NULL OR active_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+CREATE INDEX IF NOT EXISTS idx_query_active_last_checked ON query(active, last_checked_at);
+
+COMMENT ON COLUMN query.check_interval_minutes IS 'Minutes between checks (15 to 10080); NULL uses the default of twice daily';
+COMMENT ON COLUMN query.active_hours_start IS 'HH:MM (UK time) from which the query is checked; ignored unless active_hours_end is also set';
+COMMENT ON COLUMN query.active_hours_end IS 'HH:MM (UK time) until which the query is checked; may be earlier than the start to wrap past midnight';
+COMMENT ON COLUMN query.active_days IS 'Days of the week the query is checked, 0 = Sunday; NULL for every day';
+COMMENT ON COLUMN query.last_checked_at IS 'When the monitor last finished checking this query';
+
+COMMIT;
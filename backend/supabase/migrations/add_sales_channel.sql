@@ -0,0 +1,24 @@
+-- Support buying as well as renting
+-- Queries and properties carry a Rightmove channel; existing rows are lettings
+
+BEGIN;
+
+ALTER TABLE query
+ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'RENT' CHECK (channel IN ('RENT', 'BUY')),
+ADD COLUMN IF NOT EXISTS tenure_types TEXT[],
+ADD COLUMN IF NOT EXISTS new_build TEXT CHECK (new_build IN ('only', 'exclude')),
+ADD COLUMN IF NOT EXISTS exclude_retirement BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS exclude_shared_ownership BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN query.channel IS 'Rightmove channel: RENT (lettings) or BUY (sales)';
+COMMENT ON COLUMN query.tenure_types IS 'Sales only: FREEHOLD, LEASEHOLD, SHARE_OF_FREEHOLD, COMMONHOLD (NULL = any)';
+COMMENT ON COLUMN query.new_build IS 'Sales only: only = new builds only, exclude = hide new builds, NULL = either';
+COMMENT ON COLUMN query.exclude_retirement IS 'Sales only: hide retirement properties';
+COMMENT ON COLUMN query.exclude_shared_ownership IS 'Sales only: hide shared ownership properties';
+
+ALTER TABLE property
+ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'RENT' CHECK (channel IN ('RENT', 'BUY'));
+
+COMMENT ON COLUMN property.channel IS 'Whether the listing is to rent or for sale (determines price format)';
+
+COMMIT;
@@ -0,0 +1,66 @@
+-- Structured property prices
+-- property.price is a display string ("£485 pw", "Guide Price £450,000"), so the
+-- backend couldn't sort, filter or compute on price. Store the advertised amount
+-- and frequency, the rent normalised to per calendar month, the sales qualifier
+-- and the deposit. price_amount previously held the monthly rent for lettings;
+-- it now holds the amount as advertised, and price changes are tracked on
+-- price_monthly (lettings) or price_amount (sales).
+
+BEGIN;
+
+ALTER TABLE property
+ADD COLUMN IF NOT EXISTS price_frequency TEXT CHECK (price_frequency IN ('monthly', 'weekly', 'quarterly', 'yearly')),
+ADD COLUMN IF NOT EXISTS price_monthly INTEGER,
+ADD COLUMN IF NOT EXISTS price_qualifier TEXT,
+ADD COLUMN IF NOT EXISTS deposit INTEGER;
+
+COMMENT ON COLUMN property.price_amount IS 'Price in whole pounds as advertised - per price_frequency for lettings, asking price for sales';
+COMMENT ON COLUMN property.price_frequency IS 'Lettings only: monthly, weekly, quarterly or yearly (NULL for sales)';
+COMMENT ON COLUMN property.price_monthly IS 'Lettings only: rent normalised to per calendar month, in whole pounds';
+COMMENT ON COLUMN property.price_qualifier IS 'Sales only: e.g. Guide Price, Offers in Excess of, POA';
+COMMENT ON COLUMN property.deposit IS 'Lettings only: deposit in whole pounds (Rightmove letBond)';
+
+-- Backfill lettings from the display string ("£2,100 pcm", "£485 pw").
+-- Rents without a suffix are monthly. price_monthly is derived from the parsed
+-- amount and frequency - an older backfill could leave a weekly, quarterly or
+-- yearly amount in price_amount - except for monthly rents, where a price_amount
+-- already set was the monthly rent
+UPDATE property p
+SET price_amount = parsed.amount,
+    price_frequency = parsed.frequency,
+    price_monthly = CASE parsed.frequency
+        WHEN 'monthly' THEN COALESCE(p.price_amount, parsed.amount)
+        ELSE ROUND(parsed.amount * CASE parsed.frequency
+            WHEN 'weekly' THEN 52.0 / 12
+            WHEN 'quarterly' THEN 1.0 / 3
+            WHEN 'yearly' THEN 1.0 / 12
+        END)::INTEGER
+    END
+FROM (
+    SELECT id,
+        NULLIF(regexp_replace(substring(price FROM '£\s?([0-9,]+)'), ',', '', 'g'), '')::INTEGER AS amount,
+        CASE
+            WHEN price ~* '\m(pcm|per month)\M' THEN 'monthly'
+            WHEN price ~* '\m(pw|pppw|per week)\M' THEN 'weekly'
+            WHEN price ~* '\m(pq|per quarter)\M' THEN 'quarterly'
+            WHEN price ~* '\m(pa|per annum|per year)\M' THEN 'yearly'
+            ELSE 'monthly'
+        END AS frequency
+    FROM property
+    WHERE channel = 'RENT'
+      AND price_frequency IS NULL
+      AND price ~ '£\s?[0-9]'
+) parsed
+WHERE p.id = parsed.id
+  AND parsed.amount > 0;
+
+-- Backfill sales: the qualifier is whatever precedes the amount
+UPDATE property
+SET price_amount = COALESCE(price_amount, NULLIF(regexp_replace(substring(price FROM '£\s?([0-9,]+)'), ',', '', 'g'), '')::INTEGER),
+    price_qualifier = NULLIF(TRIM(COALESCE(substring(price FROM '^(.*?)£'), price)), '')
+WHERE channel = 'BUY'
+  AND price_qualifier IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_property_price_monthly ON property(price_monthly) WHERE price_monthly IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,35 @@
+-- Telegram channel
+-- Users link a Telegram chat from the app: POST /api/telegram/link returns a
+-- one-time code as a t.me deep link, and the bot receives it as "/start <code>"
+-- and stores the chat id on the user. New listings are then sent to that chat
+-- with Save/Pass buttons.
+
+BEGIN;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS telegram_chat_id BIGINT,
+ADD COLUMN IF NOT EXISTS telegram_username TEXT,
+ADD COLUMN IF NOT EXISTS telegram_linked_at TIMESTAMPTZ;
+
+-- A chat belongs to at most one user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_telegram_chat_id ON users(telegram_chat_id);
+
+COMMENT ON COLUMN users.telegram_chat_id IS 'Linked Telegram chat that new listings are sent to';
+COMMENT ON COLUMN users.telegram_username IS 'Telegram username at the time of linking, for display';
+COMMENT ON COLUMN users.telegram_linked_at IS 'When the chat was linked';
+
+CREATE TABLE IF NOT EXISTS telegram_link_code (
+  code TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_link_code_user_id ON telegram_link_code(user_id);
+
+COMMENT ON TABLE telegram_link_code IS 'One-time codes for linking a Telegram chat - deleted when used or replaced';
+
+-- Service role only - no client access
+ALTER TABLE telegram_link_code ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
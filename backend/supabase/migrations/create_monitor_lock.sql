@@ -0,0 +1,24 @@
+-- Monitor leases
+-- Scheduled runs, user refreshes and manual workflow runs can start the monitor at
+-- the same time. Each run takes a lease here first ('monitor:all' for full runs,
+-- 'monitor:user:<id>' per user) and renews it while working; a crashed holder's
+-- lease simply expires
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS monitor_lock (
+    key TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    host TEXT,
+    acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+COMMENT ON COLUMN monitor_lock.holder IS 'Random id for one acquisition - only that holder may renew or release';
+COMMENT ON COLUMN monitor_lock.host IS 'Hostname and pid of the holder, for debugging';
+COMMENT ON COLUMN monitor_lock.expires_at IS 'Free for anyone to take after this; pushed out by the holder''s heartbeat';
+
+-- Service role only - no client access
+ALTER TABLE monitor_lock ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
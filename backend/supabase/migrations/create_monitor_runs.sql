@@ -0,0 +1,54 @@
+-- Monitor run history
+-- One monitor_run row per monitor execution, and one monitor_query_result row
+-- per saved query it processed (exposed via GET /api/queries/:id/runs)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS monitor_run (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    target_user_id UUID,
+    users_processed INTEGER NOT NULL DEFAULT 0,
+    queries_processed INTEGER NOT NULL DEFAULT 0,
+    new_properties INTEGER NOT NULL DEFAULT 0,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_monitor_run_started ON monitor_run(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS monitor_query_result (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES monitor_run(id) ON DELETE CASCADE,
+    query_id UUID NOT NULL REFERENCES query(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('success', 'partial', 'failed')),
+
+    -- Counts
+    pages_fetched INTEGER NOT NULL DEFAULT 0,
+    returned_count INTEGER NOT NULL DEFAULT 0,
+    outside_area_count INTEGER NOT NULL DEFAULT 0,
+    new_count INTEGER NOT NULL DEFAULT 0,
+    excluded_count INTEGER NOT NULL DEFAULT 0,
+    saved_count INTEGER NOT NULL DEFAULT 0,
+    errors TEXT[] NOT NULL DEFAULT '{}',
+
+    -- Data quality of the listings processed (percent with each field)
+    agent_phone_pct SMALLINT,
+    agent_name_pct SMALLINT,
+    branch_name_pct SMALLINT
+);
+
+CREATE INDEX IF NOT EXISTS idx_monitor_query_result_query ON monitor_query_result(query_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_monitor_query_result_run ON monitor_query_result(run_id);
+
+ALTER TABLE monitor_run ENABLE ROW LEVEL SECURITY;
+ALTER TABLE monitor_query_result ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own query runs" ON monitor_query_result
+    FOR SELECT USING (auth.uid() = user_id);
+
+COMMIT;
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Semaphore, mapPool } from '../src/utils/concurrency';
+
+describe('Semaphore', () => {
+  it('runs at most max tasks at once, in FIFO order', async () => {
+    const semaphore = new Semaphore(2);
+    const started: number[] = [];
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all([1, 2, 3, 4].map(n => semaphore.run(async () => {
+      started.push(n);
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+    })));
+
+    assert.equal(peak, 2);
+    assert.deepEqual(started, [1, 2, 3, 4]);
+  });
+});
+
+describe('mapPool', () => {
+  it('bounds concurrency, keeps input order and isolates failures', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapPool([1, 2, 3, 4, 5], 2, async (n) => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5 * (6 - n)));
+      active--;
+      if (n === 3) throw new Error('three');
+      return n * 10;
+    });
+
+    assert.equal(peak, 2);
+    assert.deepEqual(results.map(r => r.status === 'fulfilled' ? r.value : 'failed'), [10, 20, 'failed', 40, 50]);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Test Helpers
+ * A Rightmove client pointed at the fake server, with its own rate limiter,
+ * no cache and near-instant backoff so tests run fast and don't share state
+ */
+
+import { RateLimiter, RightmoveAPI, RightmoveAPIOptions } from '../src/api';
+import { FakeRightmoveServer } from '../src/fake-rightmove';
+
+export function fakeRateLimiter(): RateLimiter {
+  return new RateLimiter({ requestsPerSecond: 1000, burst: 1000, maxConcurrency: 10 });
+}
+
+export function fakeClientOptions(server: FakeRightmoveServer, options: RightmoveAPIOptions = {}): RightmoveAPIOptions {
+  return {
+    baseUrl: server.url,
+    cache: null,
+    rateLimiter: fakeRateLimiter(),
+    ...options,
+    retry: { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 2000, ...options.retry }
+  };
+}
+
+export function fakeClient(server: FakeRightmoveServer, options: RightmoveAPIOptions = {}): RightmoveAPI {
+  return new RightmoveAPI(fakeClientOptions(server, options));
+}
+
+/** A search anywhere - the fake server ignores the location */
+export const ANYWHERE = { latitude: 51.5, longitude: -0.08 };
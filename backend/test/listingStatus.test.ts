@@ -0,0 +1,123 @@
+import './setup';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeRightmoveServer, startFakeRightmoveServer } from '../src/fake-rightmove';
+import { FollowedProperty, ListingStatusRepository } from '../src/repositories/listingStatusRepository';
+import { ListingStatusService } from '../src/services/listingStatusService';
+import { DbPropertyStatusHistory, ListingStatus } from '../src/types';
+import { nextListingStatus, parseListingStatus } from '../src/utils/listingStatus';
+import { fakeClient } from './helpers';
+
+const LISTING_ID = 152340011;
+const OTHER_ID = 152331245;
+
+/** Followed properties and their stored status */
+class MemoryStatusStore {
+  history: DbPropertyStatusHistory[] = [];
+  checked: string[] = [];
+
+  constructor(public rows: FollowedProperty[]) {}
+
+  get repo(): ListingStatusRepository {
+    return {
+      findDueForCheck: async () => this.rows.map(row => ({ ...row })),
+      markChecked: async (ids: string[]) => { this.checked.push(...ids); },
+      updateStatus: async (id: string, from: ListingStatus, to: ListingStatus) => {
+        const row = this.rows.find(r => r.id === id)!;
+        if ((row.listing_status || 'available') !== from) return false;
+        row.listing_status = to;
+        return true;
+      },
+      insertHistory: async (rows: DbPropertyStatusHistory[]) => { this.history.push(...rows); }
+    } as unknown as ListingStatusRepository;
+  }
+
+  statusOf(rightmoveId: number): ListingStatus | undefined {
+    return this.rows.find(row => row.rightmove_id === rightmoveId)?.listing_status ?? undefined;
+  }
+}
+
+describe('listing status tracking', () => {
+  let server: FakeRightmoveServer;
+
+  before(async () => {
+    server = await startFakeRightmoveServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.state.reset();
+  });
+
+  const recheck = (service: ListingStatusService) =>
+    service.recheckFollowed({ staleBefore: new Date(), limit: 50, concurrency: 2 });
+
+  function followed(): MemoryStatusStore {
+    return new MemoryStatusStore([LISTING_ID, OTHER_ID].map(id => ({
+      id: `property-${id}`,
+      rightmove_id: id,
+      address: `Listing ${id}`,
+      listing_status: 'available',
+      status_checked_at: null
+    })));
+  }
+
+  it('records let agreed and removed listings', async () => {
+    const store = followed();
+    const service = new ListingStatusService(fakeClient(server), store.repo);
+
+    server.state.changeStatus(LISTING_ID, 'Let agreed');
+    server.state.removeListing(OTHER_ID);
+    const result = await recheck(service);
+
+    assert.equal(result.checked, 2);
+    assert.equal(result.failed, 0);
+    assert.deepEqual(
+      result.changes.map(change => [change.rightmoveId, change.from, change.to]),
+      [[LISTING_ID, 'available', 'let_agreed'], [OTHER_ID, 'available', 'removed']]
+    );
+    assert.equal(store.history.length, 2);
+    assert.equal(store.history[0].raw_status, 'Let agreed');
+  });
+
+  it('marks a listing back on the market as relisted', async () => {
+    const store = followed();
+    const service = new ListingStatusService(fakeClient(server), store.repo);
+
+    server.state.changeStatus(LISTING_ID, 'Under offer');
+    await recheck(service);
+    assert.equal(store.statusOf(LISTING_ID), 'under_offer');
+
+    server.state.changeStatus(LISTING_ID, null);
+    const result = await recheck(service);
+    assert.deepEqual(result.changes.map(change => change.to), ['relisted']);
+
+    // Still available next time - no new change
+    assert.deepEqual((await recheck(service)).changes, []);
+    assert.equal(store.statusOf(LISTING_ID), 'relisted');
+  });
+
+  it('leaves listings it could not fetch due for the next run', async () => {
+    const store = followed();
+    const service = new ListingStatusService(fakeClient(server, { retry: { maxRetries: 0 } }), store.repo);
+
+    server.state.failNext(503, 1);
+    const result = await service.recheckFollowed({ staleBefore: new Date(), limit: 50, concurrency: 1 });
+
+    assert.equal(result.failed, 1);
+    assert.equal(store.checked.length, 1);
+    assert.deepEqual(result.changes, []);
+  });
+
+  it('maps Rightmove status text', () => {
+    assert.equal(parseListingStatus(null), 'available');
+    assert.equal(parseListingStatus('Let agreed'), 'let_agreed');
+    assert.equal(parseListingStatus('Sold STC'), 'sold_stc');
+    assert.equal(parseListingStatus('Under offer'), 'under_offer');
+    assert.equal(nextListingStatus('removed', 'available'), 'relisted');
+    assert.equal(nextListingStatus('available', 'available'), 'available');
+  });
+});
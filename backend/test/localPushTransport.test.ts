@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalPushTransport } from '../src/push/local';
+import { DbDeviceToken } from '../src/types/database';
+
+describe('LocalPushTransport', () => {
+  const device = (token: string, overrides: Partial<DbDeviceToken> = {}): DbDeviceToken => ({
+    user_id: 'user-1',
+    device_token: token,
+    device_type: 'ios',
+    ...overrides
+  });
+
+  it('records deliveries and reports invalid tokens', async () => {
+    const transport = new LocalPushTransport();
+    const payload = { title: '📉 Price Drop', body: 'Flat 1 dropped from £2,350 pcm to £2,200 pcm' };
+
+    const result = await transport.send(
+      [device('ios-token'), device('android-token', { device_type: 'android' }), device('invalid-token')],
+      payload
+    );
+
+    assert.deepEqual(result.sent, ['ios-token', 'android-token']);
+    assert.deepEqual(result.invalid, ['invalid-token']);
+    assert.deepEqual(result.failed, [{ token: 'invalid-token', reason: 'Unregistered' }]);
+    assert.deepEqual(transport.deliveries.map(d => [d.platform, d.token, d.payload.title]), [
+      ['ios', 'ios-token', '📉 Price Drop'],
+      ['android', 'android-token', '📉 Price Drop']
+    ]);
+
+    transport.clear();
+    assert.equal(transport.deliveries.length, 0);
+  });
+
+  it('appends deliveries to a JSON-lines file', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'ijar-push-'));
+    try {
+      const file = path.join(dir, 'pushes.jsonl');
+      const transport = new LocalPushTransport(file);
+
+      await transport.send([device('first')], { title: 'One', body: '1' });
+      await transport.send([device('second'), device('invalid-x')], { title: 'Two', body: '2' });
+
+      const lines = (await readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      assert.deepEqual(lines.map(line => [line.token, line.payload.title]), [['first', 'One'], ['second', 'Two']]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
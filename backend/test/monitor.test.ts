@@ -0,0 +1,228 @@
+import './setup';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { supabase } from '../src/db';
+import { FakeRightmoveServer, startFakeRightmoveServer } from '../src/fake-rightmove';
+import { PropertyMonitor, PropertyMonitorDeps } from '../src/monitor';
+import { LocalPushTransport } from '../src/push/local';
+import { ListingStatusRepository } from '../src/repositories/listingStatusRepository';
+import { MonitorRunRepository } from '../src/repositories/monitorRunRepository';
+import { PendingNotificationRepository } from '../src/repositories/pendingNotificationRepository';
+import { NotificationPreferenceService } from '../src/services/notificationPreferenceService';
+import { PushNotificationService } from '../src/services/notifications';
+import { PriceTrackingService } from '../src/services/priceTrackingService';
+import { SupabaseService } from '../src/services/supabase';
+import {
+  DbDeviceToken,
+  DbMonitorQueryResult,
+  DbProperty,
+  DbQuery,
+  PropertyWithDetails,
+  SearchChannel
+} from '../src/types';
+import { LeaseStore } from '../src/utils/lease';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../src/utils/notificationSchedule';
+import { displayPriceFor } from '../src/utils/price';
+import { fakeClientOptions } from './helpers';
+
+const USER_ID = 'user-1';
+
+/** The tables a monitor run reads and writes for queries and the properties linked to them */
+class MemoryDatabase extends SupabaseService {
+  queries: DbQuery[] = [{
+    id: 'query-1',
+    user_id: USER_ID,
+    name: 'Peckham flats',
+    channel: 'RENT',
+    area_name: 'Peckham',
+    latitude: 51.4735,
+    longitude: -0.0690,
+    radius: 1,
+    active: true
+  }];
+  properties = new Map<number, DbProperty>();
+  /** `${queryId} ${propertyId}` */
+  links = new Set<string>();
+
+  async getActiveQueries(): Promise<DbQuery[]> {
+    return this.queries.filter(query => query.active);
+  }
+
+  async markQueryChecked(queryId: string, checkedAt: Date): Promise<void> {
+    this.queries.find(query => query.id === queryId)!.last_checked_at = checkedAt.toISOString();
+  }
+
+  async getLinkedRightmoveIds(queryId: string, rightmoveIds: number[]): Promise<Set<number>> {
+    return new Set(rightmoveIds.filter(id => {
+      const property = this.properties.get(id);
+      return !!property && this.links.has(`${queryId} ${property.id}`);
+    }));
+  }
+
+  async getExcludedListingIds(): Promise<Set<number>> {
+    return new Set();
+  }
+
+  async recordExcludedListings(): Promise<{ success: boolean }> {
+    return { success: true };
+  }
+
+  async upsertProperty(property: PropertyWithDetails, channel: SearchChannel = 'RENT'): Promise<{ success: boolean; property: DbProperty }> {
+    const row: DbProperty = {
+      id: this.properties.get(property.identifier)?.id ?? `property-${property.identifier}`,
+      rightmove_id: property.identifier,
+      channel,
+      images: property.hdImages ?? [],
+      price: displayPriceFor(property, channel),
+      bedrooms: property.bedrooms || 0,
+      bathrooms: property.bathrooms || 0,
+      address: property.address
+    };
+    this.properties.set(property.identifier, row);
+    return { success: true, property: row };
+  }
+
+  async linkPropertyToQuery(queryId: string, propertyId: string): Promise<{ success: boolean }> {
+    this.links.add(`${queryId} ${propertyId}`);
+    return { success: true };
+  }
+
+  linkedTo(queryId: string): number[] {
+    return [...this.properties.values()]
+      .filter(property => this.links.has(`${queryId} ${property.id}`))
+      .map(property => property.rightmove_id);
+  }
+}
+
+/** Sends through the local transport to devices held in memory */
+class LocalPushService extends PushNotificationService {
+  constructor(transport: LocalPushTransport, private devices: DbDeviceToken[]) {
+    super(supabase, { ios: transport, android: transport });
+  }
+
+  async getDeviceTokensForUser(userId: string): Promise<DbDeviceToken[]> {
+    return this.devices.filter(device => device.user_id === userId);
+  }
+}
+
+class MemoryLeaseStore implements LeaseStore {
+  private leases = new Map<string, { holder: string; expiresAt: number }>();
+
+  async tryAcquire(key: string, holder: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(key);
+    if (lease && lease.expiresAt > Date.now()) return false;
+    this.leases.set(key, { holder, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async renew(key: string, holder: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(key);
+    if (lease?.holder !== holder) return false;
+    lease.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async release(key: string, holder: string): Promise<void> {
+    if (this.leases.get(key)?.holder === holder) this.leases.delete(key);
+  }
+}
+
+/** Everything a monitor run touches, in memory, with the client pointed at the fake server */
+function memoryMonitor(server: FakeRightmoveServer) {
+  const db = new MemoryDatabase();
+  const transport = new LocalPushTransport();
+  const queryResults: DbMonitorQueryResult[] = [];
+
+  const deps: PropertyMonitorDeps = {
+    api: fakeClientOptions(server),
+    supabase: db,
+    push: new LocalPushService(transport, [{ user_id: USER_ID, device_token: 'ios-token', device_type: 'ios' }]),
+    preferences: {
+      getPreferences: async () => ({ ...DEFAULT_NOTIFICATION_PREFERENCES, channels: { push: true, email: false, telegram: false } })
+    } as unknown as NotificationPreferenceService,
+    pending: {
+      findByUserId: async () => [],
+      findDueUserIds: async () => []
+    } as unknown as PendingNotificationRepository,
+    runs: {
+      startRun: async () => ({ id: `run-${queryResults.length}` }),
+      finishRun: async () => {},
+      insertQueryResult: async (row: DbMonitorQueryResult) => { queryResults.push(row); }
+    } as unknown as MonitorRunRepository,
+    locks: new MemoryLeaseStore(),
+    prices: {
+      recordPrices: async () => [],
+      claimPriceDropAlerts: async () => []
+    } as unknown as PriceTrackingService,
+    listingStatuses: {
+      findDueForCheck: async () => [],
+      claimPendingChanges: async () => []
+    } as unknown as ListingStatusRepository
+  };
+
+  return { monitor: new PropertyMonitor({ notify: true }, deps), db, transport, queryResults };
+}
+
+describe('PropertyMonitor against the fake server', () => {
+  let server: FakeRightmoveServer;
+
+  before(async () => {
+    server = await startFakeRightmoveServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.state.reset();
+  });
+
+  it('saves new listings and pushes them to the user, once', async () => {
+    const { monitor, db, transport, queryResults } = memoryMonitor(server);
+
+    const first = await monitor.run();
+    assert.equal(first.status, 'completed');
+    assert.equal(first.newProperties, 5);
+    assert.equal(db.linkedTo('query-1').length, 5);
+    assert.ok(db.queries[0].last_checked_at, 'query not marked checked');
+    assert.equal(queryResults[0].saved_count, 5);
+
+    assert.deepEqual(transport.deliveries.map(d => [d.token, d.payload.title, d.payload.body]), [
+      ['ios-token', '🏠 New Properties Found', '5 new properties found in Peckham flats']
+    ]);
+    assert.deepEqual(first.notifications.map(n => [n.channel, n.status]), [['push', 'sent']]);
+
+    // Nothing new on Rightmove - nothing saved or sent
+    const second = await monitor.run();
+    assert.equal(second.newProperties, 0);
+    assert.equal(transport.deliveries.length, 1);
+
+    server.state.addListing({ identifier: 152345500, bedrooms: 2, address: 'Queens Road, Peckham, SE15' });
+    const third = await monitor.run();
+    assert.equal(third.newProperties, 1);
+    assert.ok(db.linkedTo('query-1').includes(152345500));
+    assert.deepEqual(transport.deliveries.slice(1).map(d => d.payload.title), ['🔥 New Listing Alert']);
+
+    await monitor.cleanup();
+  });
+
+  it('tallies schema drift per run', async () => {
+    const { monitor } = memoryMonitor(server);
+    server.state.addListing({ identifier: 152345501, bedrooms: 'two' as unknown as number, address: 'Rye Lane, Peckham, SE15' });
+
+    const first = await monitor.run();
+    assert.deepEqual(first.schemaDrift, {
+      '/api/property-listing properties[].bedrooms (type_changed: string)': 1,
+      '/api/property/152345501 property.bedrooms (type_changed: string)': 1
+    });
+
+    // Already saved, so only the search sees it this time - and the count starts over
+    const second = await monitor.run();
+    assert.deepEqual(second.schemaDrift, {
+      '/api/property-listing properties[].bedrooms (type_changed: string)': 1
+    });
+
+    await monitor.cleanup();
+  });
+});
@@ -0,0 +1,72 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NotificationPreferenceRepository } from '../src/repositories/notificationPreferenceRepository';
+import { PendingNotificationRepository } from '../src/repositories/pendingNotificationRepository';
+import { QueryRepository } from '../src/repositories/queryRepository';
+import { UserRepository } from '../src/repositories/userRepository';
+import { NotificationPreferenceService } from '../src/services/notificationPreferenceService';
+import { DbNotificationPreference, DbPendingNotification, PendingNotificationKind } from '../src/types/database';
+import { nextDigestTime } from '../src/utils/notificationSchedule';
+
+const USER_ID = 'user-1';
+
+/** One user's preferences and held notifications */
+class MemoryNotifications {
+  preferences: DbNotificationPreference | null = null;
+  held: DbPendingNotification[] = [];
+
+  service(): NotificationPreferenceService {
+    return new NotificationPreferenceService(
+      {
+        findByUserId: async () => this.preferences,
+        upsert: async (row: DbNotificationPreference) => (this.preferences = row)
+      } as unknown as NotificationPreferenceRepository,
+      {
+        findById: async () => ({ id: USER_ID, email_digest: false }),
+        setEmailDigest: async () => {}
+      } as unknown as UserRepository,
+      {} as QueryRepository,
+      {
+        rescheduleWaiting: async (userId: string, kind: PendingNotificationKind, deliverAfter: Date) => {
+          for (const row of this.held) {
+            if (row.user_id === userId && row.kind === kind && row.deliver_after && Date.parse(row.deliver_after) > Date.now()) {
+              row.deliver_after = deliverAfter.toISOString();
+            }
+          }
+        }
+      } as unknown as PendingNotificationRepository
+    );
+  }
+
+  deliverAfter(): number {
+    return Date.parse(this.held[0].deliver_after!);
+  }
+}
+
+describe('editing notification preferences', () => {
+  it('reschedules a held digest, and releases it when digest delivery is turned off', async () => {
+    const store = new MemoryNotifications();
+    const service = store.service();
+
+    const digest = await service.updatePreferences(USER_ID, { timezone: 'Europe/London', delivery: 'digest', digestTime: '18:00' });
+    store.held.push({
+      user_id: USER_ID,
+      kind: 'new_listings',
+      query_id: 'query-1',
+      listings: [],
+      deliver_after: nextDigestTime(digest).toISOString()
+    });
+
+    // Unrelated edits leave the slot alone
+    await service.updatePreferences(USER_ID, { channels: { telegram: false } });
+    assert.equal(store.deliverAfter(), nextDigestTime(digest).getTime());
+
+    // A new digest time moves it to the new slot rather than sending it now
+    const later = await service.updatePreferences(USER_ID, { digestTime: '20:30' });
+    assert.equal(store.deliverAfter(), nextDigestTime(later).getTime());
+
+    await service.updatePreferences(USER_ID, { delivery: 'instant' });
+    assert.ok(store.deliverAfter() <= Date.now(), 'held digest not released');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/config';
+import { NotificationPreferences } from '../src/types/api';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  decideListingDelivery,
+  isWithinQuietHours,
+  nextLocalTime
+} from '../src/utils/notificationSchedule';
+
+const HOUR = 60 * 60 * 1000;
+
+function preferences(overrides: Partial<NotificationPreferences> = {}): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, timezone: 'Europe/London', ...overrides };
+}
+
+const NOTHING_HELD = { count: 1, dueAt: null, oldestHeldAt: null };
+const QUIET = { start: '22:00', end: '07:00' };
+
+// London is on GMT in January, so wall-clock times match UTC
+const at = (time: string) => new Date(`2026-01-10T${time}:00Z`);
+const nextDay = (time: string) => new Date(`2026-01-11T${time}:00Z`);
+
+describe('decideListingDelivery', () => {
+  it('sends straight away by default', () => {
+    assert.deepEqual(decideListingDelivery(preferences(), NOTHING_HELD, at('12:00')), { send: true });
+  });
+
+  it('holds everything until overnight quiet hours end', () => {
+    const prefs = preferences({ quietHours: QUIET });
+
+    assert.deepEqual(
+      decideListingDelivery(prefs, NOTHING_HELD, at('23:30')),
+      { send: false, until: nextDay('07:00'), reason: 'quiet_hours' }
+    );
+    assert.deepEqual(decideListingDelivery(prefs, NOTHING_HELD, nextDay('07:00')), { send: true });
+  });
+
+  it('holds digest listings for the digest slot', () => {
+    const prefs = preferences({ delivery: 'digest', digestTime: '18:00' });
+
+    const held = decideListingDelivery(prefs, NOTHING_HELD, at('09:00'));
+    assert.deepEqual(held, { send: false, until: at('18:00'), reason: 'digest' });
+
+    // Later listings keep the slot the first ones were held for
+    assert.deepEqual(
+      decideListingDelivery(prefs, { count: 3, dueAt: at('18:00'), oldestHeldAt: at('09:00') }, at('12:00')),
+      { send: false, until: at('18:00'), reason: 'digest' }
+    );
+    assert.deepEqual(
+      decideListingDelivery(prefs, { count: 3, dueAt: at('18:00'), oldestHeldAt: at('09:00') }, at('18:05')),
+      { send: true }
+    );
+  });
+
+  it("doesn't send a digest early when quiet hours end", () => {
+    const prefs = preferences({ delivery: 'digest', digestTime: '18:00', quietHours: QUIET });
+
+    const held = decideListingDelivery(prefs, NOTHING_HELD, at('23:30'));
+    assert.deepEqual(held, { send: false, until: nextDay('18:00'), reason: 'digest' });
+
+    const waiting = { count: 1, dueAt: nextDay('18:00'), oldestHeldAt: at('23:30') };
+    assert.equal(decideListingDelivery(prefs, waiting, nextDay('07:30')).send, false);
+    assert.deepEqual(decideListingDelivery(prefs, waiting, nextDay('18:00')), { send: true });
+  });
+
+  it('sends a digest that came due during quiet hours once they end', () => {
+    const prefs = preferences({ delivery: 'digest', digestTime: '06:00', quietHours: QUIET });
+    const waiting = { count: 1, dueAt: nextDay('06:00'), oldestHeldAt: at('12:00') };
+
+    assert.deepEqual(
+      decideListingDelivery(prefs, waiting, nextDay('06:30')),
+      { send: false, until: nextDay('07:00'), reason: 'quiet_hours' }
+    );
+    assert.deepEqual(decideListingDelivery(prefs, waiting, nextDay('07:00')), { send: true });
+  });
+
+  it('waits for a full batch, but not longer than notificationMaxHold', () => {
+    const prefs = preferences({ minBatchSize: 3 });
+
+    assert.deepEqual(
+      decideListingDelivery(prefs, { count: 2, dueAt: null, oldestHeldAt: at('10:00') }, at('12:00')),
+      { send: false, until: null, reason: 'min_batch' }
+    );
+    assert.deepEqual(
+      decideListingDelivery(prefs, { count: 3, dueAt: null, oldestHeldAt: at('10:00') }, at('12:00')),
+      { send: true }
+    );
+
+    const tooLong = new Date(at('10:00').getTime() + config.notificationMaxHold);
+    assert.deepEqual(
+      decideListingDelivery(prefs, { count: 2, dueAt: null, oldestHeldAt: at('10:00') }, tooLong),
+      { send: true }
+    );
+  });
+});
+
+describe('quiet hours and local times', () => {
+  it('handles windows that cross midnight', () => {
+    const prefs = preferences({ quietHours: QUIET });
+
+    assert.equal(isWithinQuietHours(prefs, at('21:59')), false);
+    assert.equal(isWithinQuietHours(prefs, at('22:00')), true);
+    assert.equal(isWithinQuietHours(prefs, nextDay('06:59')), true);
+    assert.equal(isWithinQuietHours(prefs, nextDay('07:00')), false);
+  });
+
+  it('uses the time zone, not UTC', () => {
+    // 21:30 UTC is 22:30 in London in summer (BST)
+    assert.equal(isWithinQuietHours(preferences({ quietHours: QUIET }), new Date('2026-07-01T21:30:00Z')), true);
+    assert.equal(isWithinQuietHours(preferences({ quietHours: QUIET, timezone: 'UTC' }), new Date('2026-07-01T21:30:00Z')), false);
+  });
+
+  it('finds the next wall-clock time across clock changes', () => {
+    // Clocks go forward at 01:00 UTC on 29 March 2026: 18:00 BST is 17:00 UTC
+    assert.deepEqual(nextLocalTime(18 * 60, 'Europe/London', new Date('2026-03-28T19:00:00Z')), new Date('2026-03-29T17:00:00Z'));
+    // 01:30 doesn't exist that night - the hour after will do
+    assert.deepEqual(nextLocalTime(90, 'Europe/London', new Date('2026-03-28T12:00:00Z')), new Date('2026-03-29T01:30:00Z'));
+    // Clocks go back at 01:00 UTC on 25 October 2026: 07:00 GMT is 07:00 UTC
+    assert.deepEqual(nextLocalTime(7 * 60, 'Europe/London', new Date('2026-10-24T12:00:00Z')), new Date('2026-10-25T07:00:00Z'));
+  });
+
+  it('is strictly after now', () => {
+    const now = at('18:00');
+    assert.equal(nextLocalTime(18 * 60, 'Europe/London', now).getTime() - now.getTime(), 24 * HOUR);
+  });
+});
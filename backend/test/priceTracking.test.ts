@@ -0,0 +1,148 @@
+import './setup';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeRightmoveServer, startFakeRightmoveServer } from '../src/fake-rightmove';
+import { PriceHistoryRepository } from '../src/repositories/priceHistoryRepository';
+import { PropertyRepository, StoredPrice } from '../src/repositories/propertyRepository';
+import { PriceTrackingService } from '../src/services/priceTrackingService';
+import { DbPropertyPriceHistory, PropertyListItem } from '../src/types';
+import { parsePriceText, structuredPriceFor } from '../src/utils/price';
+import { ANYWHERE, fakeClient } from './helpers';
+
+const LISTING_ID = 152340011;
+
+/** The property table's price columns, updated only if unchanged since read */
+class MemoryPriceStore {
+  history: DbPropertyPriceHistory[] = [];
+  /** Runs after each read, e.g. to have another process change a row */
+  afterRead?: () => void;
+
+  constructor(public rows: StoredPrice[]) {}
+
+  get propertyRepo(): PropertyRepository {
+    return {
+      findPricesByRightmoveIds: async (ids: number[]) => {
+        const rows = this.rows.filter(row => ids.includes(row.rightmove_id)).map(row => ({ ...row }));
+        this.afterRead?.();
+        return rows;
+      },
+      updatePrice: async (id: string, price: Partial<StoredPrice>, previous: Pick<StoredPrice, 'price_amount' | 'price_monthly'>) => {
+        const row = this.rows.find(r => r.id === id)!;
+        if ((row.price_amount ?? null) !== (previous.price_amount ?? null)
+          || (row.price_monthly ?? null) !== (previous.price_monthly ?? null)) {
+          return false;
+        }
+        Object.assign(row, price);
+        return true;
+      }
+    } as unknown as PropertyRepository;
+  }
+
+  get historyRepo(): PriceHistoryRepository {
+    return {
+      insert: async (rows: DbPropertyPriceHistory[]) => { this.history.push(...rows); }
+    } as unknown as PriceHistoryRepository;
+  }
+}
+
+function storedFrom(listing: PropertyListItem): StoredPrice {
+  return {
+    id: `property-${listing.identifier}`,
+    rightmove_id: listing.identifier,
+    price: listing.displayPrices[0].displayPrice,
+    ...structuredPriceFor(listing)
+  };
+}
+
+describe('price tracking', () => {
+  let server: FakeRightmoveServer;
+
+  before(async () => {
+    server = await startFakeRightmoveServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.state.reset();
+  });
+
+  it('records a reduction once, against the monthly rent', async () => {
+    const api = fakeClient(server);
+    const { properties } = await api.searchProperties(ANYWHERE);
+    const store = new MemoryPriceStore(properties.map(storedFrom));
+    const service = new PriceTrackingService(store.propertyRepo, store.historyRepo);
+
+    assert.deepEqual(await service.recordPrices(properties, 'RENT'), []);
+
+    server.state.changePrice(LISTING_ID, 2200);
+    const reduced = (await api.searchProperties(ANYWHERE)).properties;
+    const changes = await service.recordPrices(reduced, 'RENT');
+
+    assert.equal(changes.length, 1);
+    assert.deepEqual(
+      { rightmoveId: changes[0].rightmoveId, oldAmount: changes[0].oldAmount, newAmount: changes[0].newAmount },
+      { rightmoveId: LISTING_ID, oldAmount: 2350, newAmount: 2200 }
+    );
+    assert.equal(changes[0].newPrice, '£2,200 pcm');
+    assert.equal(store.history.length, 1);
+    assert.equal(store.history[0].change_amount, -150);
+
+    const stored = store.rows.find(row => row.rightmove_id === LISTING_ID)!;
+    assert.equal(stored.price_monthly, 2200);
+
+    // Seeing the same price again is not another change
+    assert.deepEqual(await service.recordPrices(reduced, 'RENT'), []);
+    assert.equal(store.history.length, 1);
+  });
+
+  it('takes the first price seen as the baseline, not a change', async () => {
+    const api = fakeClient(server);
+    const { properties } = await api.searchProperties(ANYWHERE);
+    const store = new MemoryPriceStore(properties.map(listing => ({
+      ...storedFrom(listing),
+      price_amount: null,
+      price_monthly: null
+    })));
+    const service = new PriceTrackingService(store.propertyRepo, store.historyRepo);
+
+    assert.deepEqual(await service.recordPrices(properties, 'RENT'), []);
+    assert.equal(store.rows.find(row => row.rightmove_id === LISTING_ID)!.price_monthly, 2350);
+    assert.equal(store.history.length, 0);
+  });
+
+  it('skips a change another process already recorded', async () => {
+    const api = fakeClient(server);
+    const { properties } = await api.searchProperties(ANYWHERE);
+    const store = new MemoryPriceStore(properties.map(storedFrom));
+    const service = new PriceTrackingService(store.propertyRepo, store.historyRepo);
+
+    server.state.changePrice(LISTING_ID, 2200);
+    const reduced = (await api.searchProperties(ANYWHERE)).properties;
+    // Another run updates the row between our read and our write
+    store.afterRead = () => {
+      store.rows.find(row => row.rightmove_id === LISTING_ID)!.price_monthly = 2200;
+    };
+
+    assert.deepEqual(await service.recordPrices(reduced, 'RENT'), []);
+    assert.equal(store.history.length, 0);
+  });
+});
+
+describe('price parsing', () => {
+  it('normalises rents to per calendar month', () => {
+    assert.deepEqual(parsePriceText('£2,100 pcm'), { price_amount: 2100, price_frequency: 'monthly', price_monthly: 2100, price_qualifier: null });
+    assert.deepEqual(parsePriceText('£485 pw'), { price_amount: 485, price_frequency: 'weekly', price_monthly: 2102, price_qualifier: null });
+    assert.equal(parsePriceText('£200 pppw').price_frequency, 'weekly');
+    assert.equal(parsePriceText('£3,000 pq').price_monthly, 1000);
+    assert.equal(parsePriceText('£24,000 pa').price_monthly, 2000);
+    assert.equal(parsePriceText('£1,500').price_frequency, 'monthly');
+  });
+
+  it('keeps the qualifier for sales', () => {
+    assert.deepEqual(parsePriceText('Guide Price £450,000', 'BUY'), { price_amount: 450000, price_frequency: null, price_monthly: null, price_qualifier: 'Guide Price' });
+    assert.deepEqual(parsePriceText('POA', 'BUY'), { price_amount: null, price_frequency: null, price_monthly: null, price_qualifier: 'POA' });
+  });
+});
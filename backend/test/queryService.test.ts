@@ -0,0 +1,71 @@
+import './setup';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MonitorRunRepository } from '../src/repositories/monitorRunRepository';
+import { QueryRepository } from '../src/repositories/queryRepository';
+import { UpdateQueryRequest } from '../src/schemas';
+import { QueryService } from '../src/services/queryService';
+import { DbQuery } from '../src/types/database';
+import { ApiError } from '../src/utils/errors';
+
+const USER_ID = 'user-1';
+
+/** One user's queries, updated in place */
+function memoryQueries(rows: DbQuery[]): QueryRepository {
+  return {
+    findById: async (queryId: string, userId: string) =>
+      rows.find(row => row.id === queryId && row.user_id === userId) ?? null,
+    update: async (queryId: string, userId: string, updates: UpdateQueryRequest) => {
+      const row = rows.find(r => r.id === queryId && r.user_id === userId);
+      if (!row) return false;
+      Object.assign(row, updates);
+      return true;
+    },
+    clearExcludedListings: async () => {}
+  } as unknown as QueryRepository;
+}
+
+function serviceFor(rows: DbQuery[]): QueryService {
+  return new QueryService(memoryQueries(rows), {} as MonitorRunRepository);
+}
+
+describe('updating a query', () => {
+  const query = (location: Partial<DbQuery>): DbQuery => ({
+    id: 'query-1',
+    user_id: USER_ID,
+    name: 'Peckham flats',
+    area_name: 'Peckham',
+    ...location
+  });
+
+  const rejectsAsBadRequest = (promise: Promise<unknown>) =>
+    assert.rejects(promise, (error: unknown) => {
+      assert.ok(error instanceof ApiError);
+      assert.equal(error.status, 400);
+      return true;
+    });
+
+  it("won't clear the only location a query has", async () => {
+    const rows = [query({ latitude: 51.4735, longitude: -0.0690 })];
+    const service = serviceFor(rows);
+
+    await rejectsAsBadRequest(service.updateQuery(USER_ID, 'query-1', { latitude: null }));
+    assert.equal(rows[0].latitude, 51.4735);
+
+    const byIdentifier = serviceFor([query({ location_identifier: 'OUTCODE^1940' })]);
+    await rejectsAsBadRequest(byIdentifier.updateQuery(USER_ID, 'query-1', { location_identifier: null }));
+  });
+
+  it('clears one location when the query keeps the other', async () => {
+    const rows = [query({ latitude: 51.4735, longitude: -0.0690, location_identifier: 'OUTCODE^1940' })];
+    const service = serviceFor(rows);
+
+    await service.updateQuery(USER_ID, 'query-1', { latitude: null, longitude: null });
+    assert.equal(rows[0].latitude, null);
+
+    // Swapping to coordinates in the same update
+    await service.updateQuery(USER_ID, 'query-1', { location_identifier: null, latitude: 51.5, longitude: -0.08 });
+    assert.equal(rows[0].location_identifier, null);
+    assert.equal(rows[0].latitude, 51.5);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, RightmoveAbortError } from '../src/api';
+
+describe('RateLimiter', () => {
+  it('lets a burst through, then spaces requests at the sustained rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 2, maxConcurrency: 10 });
+    const started = Date.now();
+
+    const times = await Promise.all(
+      Array.from({ length: 4 }, () => limiter.schedule(async () => Date.now() - started))
+    );
+
+    assert.ok(times[1] < 40, `burst was throttled (${times[1]}ms)`);
+    // Two more tokens at 20/s take ~100ms
+    assert.ok(times[3] >= 90, `sustained rate not enforced (${times[3]}ms)`);
+  });
+
+  it('caps requests in flight', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 1000, maxConcurrency: 2 });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      active--;
+    })));
+
+    assert.equal(peak, 2);
+  });
+
+  it('holds every waiter while paused', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 1000, maxConcurrency: 10 });
+    limiter.pause(100);
+
+    const started = Date.now();
+    await limiter.schedule(async () => undefined);
+    assert.ok(Date.now() - started >= 90, 'slot issued while paused');
+  });
+
+  it('drops a waiter whose signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1000, burst: 1000, maxConcurrency: 10 });
+    limiter.pause(100);
+
+    const aborted = new AbortController();
+    const waiting = limiter.acquire(aborted.signal);
+    aborted.abort();
+
+    await assert.rejects(waiting, RightmoveAbortError);
+    assert.equal(limiter.pending, 0);
+  });
+});
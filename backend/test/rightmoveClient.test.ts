@@ -0,0 +1,147 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RightmoveAbortError,
+  RightmoveNotFoundError,
+  RightmoveRateLimitError,
+  RightmoveServerError
+} from '../src/api';
+import { FakeRightmoveServer, startFakeRightmoveServer } from '../src/fake-rightmove';
+import { ANYWHERE, fakeClient, fakeRateLimiter } from './helpers';
+
+const LISTING_ID = 152340011;
+
+describe('Rightmove client against the fake server', () => {
+  let server: FakeRightmoveServer;
+
+  before(async () => {
+    server = await startFakeRightmoveServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.state.reset();
+  });
+
+  it('searches and fetches details', async () => {
+    const api = fakeClient(server);
+
+    const result = await api.searchProperties(ANYWHERE);
+    assert.equal(result.total, 5);
+    assert.equal(result.properties[0].identifier, LISTING_ID);
+
+    const details = await api.getPropertyDetails(LISTING_ID);
+    assert.equal(details.property.identifier, LISTING_ID);
+  });
+
+  it('retries server errors until a request succeeds', async () => {
+    const api = fakeClient(server);
+    server.state.failNext(503, 2);
+
+    const details = await api.getPropertyDetails(LISTING_ID);
+    assert.equal(details.property.identifier, LISTING_ID);
+    assert.equal(server.state.summary().pendingFailures, 0);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const api = fakeClient(server, { retry: { maxRetries: 2 } });
+    server.state.failNext(503, 5);
+
+    await assert.rejects(api.getPropertyDetails(LISTING_ID), RightmoveServerError);
+    // The first attempt plus two retries
+    assert.equal(server.state.summary().pendingFailures, 2);
+  });
+
+  it('does not retry a listing that is gone', async () => {
+    const api = fakeClient(server);
+
+    await assert.rejects(api.getPropertyDetails(1), RightmoveNotFoundError);
+    assert.equal(server.state.detailCalls, 1);
+  });
+
+  it('waits out a short Retry-After on 429', async () => {
+    const api = fakeClient(server);
+    server.state.failNext(429, 1, 1);
+
+    const started = Date.now();
+    await api.getPropertyDetails(LISTING_ID);
+    assert.ok(Date.now() - started >= 950, 'retried before Retry-After elapsed');
+  });
+
+  it('surfaces a Retry-After longer than maxDelayMs and pauses the shared limiter', async () => {
+    const rateLimiter = fakeRateLimiter();
+    const api = fakeClient(server, { rateLimiter, retry: { maxDelayMs: 100 } });
+    server.state.failNext(429, 1, 1);
+
+    await assert.rejects(api.getPropertyDetails(LISTING_ID), (error: unknown) => {
+      assert.ok(error instanceof RightmoveRateLimitError);
+      assert.equal(error.retryAfterMs, 1000);
+      return true;
+    });
+
+    // Everyone sharing the limiter now waits for the pause
+    const started = Date.now();
+    await api.getPropertyDetails(LISTING_ID);
+    assert.ok(Date.now() - started >= 900, 'limiter was not paused');
+  });
+
+  it('shares one fetch between concurrent identical requests', async () => {
+    const api = fakeClient(server);
+
+    const [first, second] = await Promise.all([
+      api.getPropertyDetails(LISTING_ID),
+      api.getPropertyDetails(LISTING_ID)
+    ]);
+    assert.deepEqual(first, second);
+    assert.equal(server.state.detailCalls, 1);
+  });
+
+  it('runs each search page request through fetchPage', async () => {
+    const api = fakeClient(server);
+    let requests = 0;
+
+    const pages = [];
+    for await (const page of api.searchAllPages(ANYWHERE, {
+      maxPages: 3,
+      fetchPage: (request) => { requests++; return request(); }
+    })) {
+      pages.push(page);
+    }
+    assert.equal(requests, pages.length);
+    assert.equal(server.state.summary().searchCalls, pages.length);
+  });
+
+  it("doesn't let one caller's abort cancel a shared fetch for another", async () => {
+    const rateLimiter = fakeRateLimiter();
+    const api = fakeClient(server, { rateLimiter });
+    // Hold the request in the limiter long enough to abort while it's shared
+    rateLimiter.pause(100);
+
+    const aborted = new AbortController();
+    const first = api.getPropertyDetails(LISTING_ID, { signal: aborted.signal });
+    const second = api.getPropertyDetails(LISTING_ID);
+    setTimeout(() => aborted.abort(), 20);
+
+    await assert.rejects(first, RightmoveAbortError);
+    const details = await second;
+    assert.equal(details.property.identifier, LISTING_ID);
+    assert.equal(server.state.detailCalls, 1);
+  });
+
+  it('cancels a shared fetch once every caller has aborted', async () => {
+    const rateLimiter = fakeRateLimiter();
+    const api = fakeClient(server, { rateLimiter });
+    rateLimiter.pause(100);
+
+    const aborted = new AbortController();
+    const request = api.getPropertyDetails(LISTING_ID, { signal: aborted.signal });
+    setTimeout(() => aborted.abort(), 20);
+    await assert.rejects(request, RightmoveAbortError);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    assert.equal(server.state.detailCalls, 0);
+  });
+});
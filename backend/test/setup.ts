@@ -0,0 +1,10 @@
+/**
+ * Test Setup
+ * Import first in every test file. Repositories create the Supabase client on
+ * import, which needs these set - the tests swap in in-memory repositories, so
+ * nothing talks to it. (The client also needs a global WebSocket, hence
+ * --experimental-websocket in npm test for Node 20.)
+ */
+
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key';